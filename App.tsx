@@ -1,195 +1,506 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid'; // For unique IDs
 import ImageUploader from './components/ImageUploader';
 import GeneratedImageCard from './components/GeneratedImageCard';
 import LoadingSpinner from './components/LoadingSpinner';
-import { editImage } from './services/geminiService';
-import { GeneratedImage } from './types';
+import PipelineEditor from './components/PipelineEditor';
+import ProviderSelector from './components/ProviderSelector';
+import StepPlaceholderCard from './components/StepPlaceholderCard';
+import ChromaKeyControls from './components/ChromaKeyControls';
+import CompositorPanel from './components/CompositorPanel';
+import TurntablePlayer from './components/TurntablePlayer';
+import HistorySidebar from './components/HistorySidebar';
+import BatchQueue from './components/BatchQueue';
+import ReferenceImagesPanel from './components/ReferenceImagesPanel';
+import UsagePanel from './components/UsagePanel';
+import TemplateVariablesForm from './components/TemplateVariablesForm';
+import ProvenanceInspector from './components/ProvenanceInspector';
+import CropModal from './components/CropModal';
+import { useProjectHistory } from './hooks/useProjectHistory';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { findStaleSteps, validatePipeline } from './services/pipelineService';
+import { getDefaultProviderSettings, getImageProvider } from './services/imageProviders';
+import { BudgetExceededError, UploadRejectedError, describeError } from './services/errors';
+import { RunArchiveOptions, createBatchArchive, createRunArchive } from './services/exportService';
+import {
+  deleteProject,
+  duplicateProject,
+  loadProject,
+  pruneOldProjects,
+  renameProject,
+  saveProject,
+} from './services/projectStore';
+import { ChromaKeyOptions, DEFAULT_CHROMA_KEY_OPTIONS, chromaKeyImage } from './services/chromaKey';
+import { DEFAULT_CACHE_MAX_BYTES, ResultCacheOptions, indexedDbCacheStore } from './services/resultCache';
+import { checkTemplateValue, renderPipeline } from './services/promptTemplate';
+import { ImageProvenance, hashSourceDataUrl } from './services/provenance';
+import { DEFAULT_SOURCE_SIZE_LIMIT, SOURCE_SIZE_LIMITS, preprocessUpload } from './services/preprocess';
+import { UsageSettings, loadDailyUsage, loadUsageSettings, recordDailyUsage, saveUsageSettings } from './services/usage';
+import { downloadUrl, readFileAsDataUrl, toFileSlug } from './utils/fileUtils';
+import { DEFAULT_CONCURRENCY, DEFAULT_PIPELINE } from './constants';
+import { BatchItem, CropRect, GeneratedImage, Pipeline, ProviderSettings, UsageTotals } from './types';
+
+/** `exportingId` value while the whole batch is being archived. */
+const ALL_ITEMS = 'all';
+
+// Generated images in pipeline order rather than completion order.
+const orderedImages = (item: BatchItem): GeneratedImage[] =>
+  item.runSteps
+    .map((step) => item.images.find((image) => image.stepId === step.id))
+    .filter((image): image is GeneratedImage => Boolean(image));
+
+// The pipeline an item runs with; items not started yet take the editor's.
+const pipelineOf = (item: BatchItem, editorPipeline: Pipeline): Pipeline => ({
+  ...(item.runPipelineInfo ?? editorPipeline),
+  steps: item.runSteps,
+});
+
+const sourceStem = (item: BatchItem) => item.file.name.replace(/\.[^.]+$/, '');
 
 function App() {
-  const [originalFile, setOriginalFile] = useState<File | null>(null);
-  const [originalImagePreview, setOriginalImagePreview] = useState<string | null>(null);
-  const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]); // Fix: Removed trailing comma
-  const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentProcessingStep, setCurrentProcessingStep] = useState<string>('');
-
-  const imageTransformations = useCallback(
-    async (
-      base64Image: string,
-      mimeType: string,
-      updateGeneratedImages: React.Dispatch<React.SetStateAction<GeneratedImage[]>>
-    ): Promise<void> => {
-      let currentBase64 = base64Image;
-      let currentMimeType = mimeType;
-      let greenScreenBaseForTpose: string | null = null; // Store the initial green-screened image
-
-      const steps = [
-        {
-          name: "Green Screen Background",
-          description: "Original image with background removed and replaced with a green screen.",
-          prompt: "Remove the background from this image and replace it with a solid, bright green screen (hex #00FF00). Ensure the subject is clearly visible.",
-          isTposeStep: false,
-        },
-        {
-          name: "Front View (Green Screen)",
-          description: "A front view of the subject with a green screen background.",
-          prompt: "Generate a clear front view of the person or caricature in this image. The background must be a solid, bright green screen (hex #00FF00). Do not change the pose from the original subject, just the camera angle.",
-          isTposeStep: false,
-        },
-        {
-          name: "Side View (Green Screen)",
-          description: "A side view of the subject with a green screen background.",
-          prompt: "Generate a clear side view of the person or caricature in this image. The background must be a solid, bright green screen (hex #00FF00). Do not change the pose from the original subject, just the camera angle.",
-          isTposeStep: false,
-        },
-        {
-          name: "Back View (Green Screen)",
-          description: "A back view of the subject with a green screen background.",
-          prompt: "Generate a clear back view of the person or caricature in this image. The background must be a solid, bright green screen (hex #00FF00). Do not change the pose from the original subject, just the camera angle.",
-          isTposeStep: false,
-        },
-        {
-          name: "T-Pose Front View (Green Screen)",
-          description: "The subject in a T-pose, front view, with a green screen background.",
-          prompt: "Transform the person or caricature in this image into a standard T-pose (arms outstretched horizontally, palms down, legs together), facing directly front. The background must be a solid, bright green screen (hex #00FF00). Remove any weapons or accessories the subject might be holding.",
-          isTposeStep: true,
-        },
-        {
-          name: "T-Pose Side View (Green Screen)",
-          description: "The subject in a T-pose, side view, with a green screen background.",
-          prompt: "Transform the person or caricature in this image into a standard T-pose (arms outstretched horizontally, palms down, legs together), facing directly side. The background must be a solid, bright green screen (hex #00FF00). Remove any weapons or accessories the subject might be holding.",
-          isTposeStep: true,
-        },
-        {
-          name: "T-Pose Back View (Green Screen)",
-          description: "The subject in a T-pose, back view, with a green screen background.",
-          prompt: "Transform the person or caricature in this image into a standard T-pose (arms outstretched horizontally, palms down, legs together), facing directly back. The background must be a solid, bright green screen (hex #00FF00). Remove any weapons or accessories the subject might be holding.",
-          isTposeStep: true,
-        },
-      ];
-
-      // Step 0: Process the initial green screen background removal.
-      setCurrentProcessingStep('Removing background and applying green screen...');
-      const greenScreenBase64 = await editImage(base64Image, mimeType, steps[0].prompt);
-      updateGeneratedImages(prevImages => [
-        ...prevImages,
-        {
-          id: uuidv4(),
-          name: steps[0].name,
-          description: steps[0].description,
-          src: `data:${mimeType};base64,${greenScreenBase64}`,
-        },
-      ]);
-      greenScreenBaseForTpose = greenScreenBase64; // This is the base for T-pose images
-      currentBase64 = greenScreenBase64; // For chaining regular views
-      currentMimeType = 'image/png'; // Assume output from background removal might be PNG for transparency
-
-      // Process subsequent views and T-poses
-      for (let i = 1; i < steps.length; i++) {
-        const step = steps[i];
-        setCurrentProcessingStep(`Generating ${step.name}...`);
-
-        let inputImageForStep = currentBase64;
-        if (step.isTposeStep && greenScreenBaseForTpose) {
-          inputImageForStep = greenScreenBaseForTpose; // Use the initial green-screened image for T-poses
-        }
+  const [pipeline, setPipeline] = useState<Pipeline>(DEFAULT_PIPELINE);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  // Runs use the pipeline with its variables filled in; the editor keeps the placeholders.
+  const renderedPipeline = useMemo(() => renderPipeline(pipeline, templateValues), [pipeline, templateValues]);
+  const areTemplateValuesValid = (pipeline.variables ?? []).every(
+    (variable) => !checkTemplateValue(variable, templateValues[variable.name] ?? variable.default),
+  );
+  const isPipelineValid = validatePipeline(pipeline).length === 0 && areTemplateValuesValid;
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(getDefaultProviderSettings);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [useCache, setUseCache] = useState<boolean>(true); // Off bypasses cached results for the next runs
+  const [cacheSizeMb, setCacheSizeMb] = useState<number>(DEFAULT_CACHE_MAX_BYTES / 1024 / 1024);
+  const [activeItemId, setActiveItemId] = useState<string | null>(null); // Source shown in the uploader and compositor
+  const [sourceSizeLimit, setSourceSizeLimit] = useState<number | null>(DEFAULT_SOURCE_SIZE_LIMIT); // Longest side of prepared sources
+  const [croppingItemId, setCroppingItemId] = useState<string | null>(null);
+  const [chromaKeyOptions, setChromaKeyOptions] = useState<ChromaKeyOptions>(DEFAULT_CHROMA_KEY_OPTIONS);
+  const [downloadTransparent, setDownloadTransparent] = useState<boolean>(false);
+  const [exportingId, setExportingId] = useState<string | null>(null); // Item id, or ALL_ITEMS for the whole batch
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const history = useProjectHistory();
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [dailyUsage, setDailyUsage] = useState(loadDailyUsage);
+  const cache = useMemo<ResultCacheOptions>(
+    () => ({ store: indexedDbCacheStore, maxBytes: cacheSizeMb * 1024 * 1024, bypass: !useCache }),
+    [cacheSizeMb, useCache],
+  );
+  const handleUsage = useCallback((model: string, usage: UsageTotals) => {
+    setDailyUsage(recordDailyUsage(model, usage));
+  }, []);
+  const batch = useBatchQueue({
+    pipeline: renderedPipeline,
+    providerSettings,
+    concurrency,
+    cache,
+    budget: usageSettings.budget,
+    onUsage: handleUsage,
+  });
+  const isLoading = batch.queueState === 'running';
+  const activeItem = batch.items.find((item) => item.id === activeItemId) ?? batch.items[0] ?? null;
+  const startedItems = batch.items.filter((item) => item.runSteps.length > 0);
+  const croppingItem = batch.items.find((item) => item.id === croppingItemId) ?? null;
 
-        const editedImageBase64 = await editImage(inputImageForStep, currentMimeType, step.prompt);
-        updateGeneratedImages(prevImages => [
-          ...prevImages,
-          {
-            id: uuidv4(),
-            name: step.name,
-            description: step.description,
-            src: `data:${currentMimeType};base64,${editedImageBase64}`,
-          },
-        ]);
-        if (!step.isTposeStep) {
-            currentBase64 = editedImageBase64; // Only chain if it's not a T-pose step
-        }
+  /**
+   * Prepares each upload (size and format checks, orientation, downscaling) and queues the ones
+   * that pass. Files are prepared one at a time to keep memory use down with large photos.
+   */
+  const handleImagesSelected = useCallback(async (files: File[]) => {
+    setError(null);
+    const problems: string[] = [];
+    const sources: Pick<BatchItem, 'file' | 'upload'>[] = [];
+    for (const file of files) {
+      try {
+        sources.push({ file: await preprocessUpload(file, { maxDimension: sourceSizeLimit }), upload: { original: file, crop: null } });
+      } catch (err) {
+        problems.push(err instanceof UploadRejectedError ? err.message : `Failed to prepare ${file.name}: ${describeError(err)}`);
       }
-    },
-    [],
-  ); // Empty dependency array as `imageTransformations` itself doesn't depend on external state changing.
+    }
+    try {
+      const added = await batch.addFiles(sources);
+      setActiveItemId(prev => prev ?? added[0]?.id ?? null);
+    } catch (err) {
+      problems.push(err instanceof Error ? err.message : String(err));
+    }
+    if (problems.length > 0) {
+      setError(problems.join(' '));
+    }
+  }, [batch.addFiles, sourceSizeLimit]);
 
-  const handleImageSelected = useCallback((file: File) => {
-    setOriginalFile(file);
+  /**
+   * Replaces a source with a new crop of the file it was uploaded as, scaled to the current size limit.
+   */
+  const handleCropSource = useCallback(async (item: BatchItem, crop: CropRect | null) => {
+    setCroppingItemId(null);
+    const original = item.upload?.original ?? item.file;
+    try {
+      const file = await preprocessUpload(original, { maxDimension: sourceSizeLimit, crop });
+      batch.updateItem(item.id, { file, sourceDataUrl: await readFileAsDataUrl(file), upload: { original, crop } });
+    } catch (err) {
+      setError(`Failed to crop ${item.file.name}: ${describeError(err)}`);
+    }
+  }, [batch.updateItem, sourceSizeLimit]);
+
+  /**
+   * Runs `work` against the queue and reports sources that ended with failed steps.
+   */
+  const runQueue = useCallback(async (work: () => Promise<BatchItem[]>) => {
     setError(null);
-    setGeneratedImages([]); // Clear previous results immediately upon new file selection
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setOriginalImagePreview(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+    try {
+      const items = await work();
+      const failedCount = items.filter((item) => item.status === 'failed').length;
+      if (failedCount > 0) {
+        setError(`${failedCount} source${failedCount === 1 ? ' has' : 's have'} failed steps. Retry them individually or resume the run.`);
+      }
+    } catch (err) {
+      setError(err instanceof BudgetExceededError ? `Run not started: ${err.message}` : `Failed to process image: ${describeError(err)}`);
+    }
   }, []);
 
-  const processImage = useCallback(async () => {
-    if (!originalFile) {
-      setError('Please upload an image first.');
+  // Runs queued sources. Once everything has run, starting again re-runs every source from scratch,
+  // which costs a request per step, so it asks first.
+  const processImages = useCallback(() => {
+    const hasQueued = batch.items.some((item) => item.status === 'pending' || item.status === 'paused');
+    if (hasQueued) {
+      return runQueue(batch.processQueue);
+    }
+    const count = batch.items.length;
+    if (
+      count > 0 &&
+      window.confirm(
+        `Run ${count === 1 ? 'this source' : `all ${count} sources`} again from scratch? Current results stay in each step's version history.`,
+      )
+    ) {
+      return runQueue(() => batch.restartItems(batch.items.map((item) => item.id)));
+    }
+  }, [batch.items, runQueue, batch.processQueue, batch.restartItems]);
+
+  // Save each source's run after every change so a reload or closed tab does not lose paid generations.
+  // An item counts as saved only once its save succeeds, so a failed save is tried again on the next change.
+  const lastSavedRef = useRef<Map<string, BatchItem>>(new Map());
+  const savingRef = useRef<Map<string, BatchItem>>(new Map());
+  useEffect(() => {
+    const changed = batch.items.filter((item) => {
+      const saved = savingRef.current.get(item.id) ?? lastSavedRef.current.get(item.id);
+      return (
+        item.runSteps.length > 0 &&
+        (!saved || saved.images !== item.images || saved.versions !== item.versions || saved.references !== item.references || saved.runSteps !== item.runSteps || saved.runPipelineInfo !== item.runPipelineInfo || saved.projectName !== item.projectName || saved.usage !== item.usage)
+      );
+    });
+    if (changed.length === 0) {
       return;
     }
+    const save = async (item: BatchItem) => {
+      savingRef.current.set(item.id, item);
+      try {
+        await saveProject({
+          id: item.id,
+          name: item.projectName,
+          createdAt: item.createdAt,
+          updatedAt: new Date().toISOString(),
+          source: { name: item.file.name, dataUrl: item.sourceDataUrl },
+          references: item.references,
+          pipeline: pipelineOf(item, pipeline),
+          providerSettings: item.providerSettings ?? providerSettings,
+          images: item.images,
+          versions: item.versions,
+          usage: item.usage,
+        });
+        lastSavedRef.current.set(item.id, item);
+      } finally {
+        if (savingRef.current.get(item.id) === item) {
+          savingRef.current.delete(item.id);
+        }
+      }
+    };
+    Promise.all(changed.map(save))
+      .then(history.refresh)
+      .catch((err) => setError(`Failed to save project: ${describeError(err)}`));
+    // Only persist when a run itself changes, not when the pipeline editor or provider picker is touched.
+  }, [batch.items]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      const item = batch.addProject(project);
+      lastSavedRef.current.set(item.id, item);
+      setPipeline(project.pipeline);
+      setProviderSettings(project.providerSettings);
+      setActiveItemId(item.id);
+      setError(null);
+      setIsHistoryOpen(false);
+    } catch (err) {
+      setError(`Failed to open project: ${describeError(err)}`);
+    }
+  }, [batch.addProject]);
+
+  const handleRenameProject = useCallback(async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      batch.updateItem(id, { projectName: name });
+      await history.refresh();
+    } catch (err) {
+      setError(`Failed to rename project: ${describeError(err)}`);
+    }
+  }, [batch.updateItem, history.refresh]);
+
+  const handleDuplicateProject = useCallback(async (id: string) => {
+    try {
+      await duplicateProject(id, uuidv4());
+      await history.refresh();
+    } catch (err) {
+      setError(`Failed to duplicate project: ${describeError(err)}`);
+    }
+  }, [history.refresh]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    try {
+      await deleteProject(id);
+      await history.refresh();
+    } catch (err) {
+      setError(`Failed to delete project: ${describeError(err)}`);
+    }
+  }, [history.refresh]);
+
+  const handlePruneProjects = useCallback(async () => {
+    try {
+      const deleted = await pruneOldProjects(0.6, batch.items.map((item) => item.id));
+      await history.refresh();
+      if (deleted.length === 0) {
+        setError('Nothing could be pruned. Delete projects manually to free up space.');
+      }
+    } catch (err) {
+      setError(`Failed to prune projects: ${describeError(err)}`);
+    }
+  }, [batch.items, history.refresh]);
+
+  const updateUsageSettings = useCallback((settings: UsageSettings) => {
+    setUsageSettings(settings);
+    saveUsageSettings(settings);
+  }, []);
+
+  const handleClearCache = useCallback(async () => {
+    try {
+      await indexedDbCacheStore.clear();
+    } catch (err) {
+      setError(`Failed to clear the result cache: ${describeError(err)}`);
+    }
+  }, []);
 
-    setIsLoading(true);
+  /**
+   * Re-runs the step an inspected file records, on the open source it was generated from,
+   * with the recorded prompt and model.
+   */
+  const handleRerunFromProvenance = useCallback(async (provenance: ImageProvenance) => {
     setError(null);
-    setGeneratedImages([]); // Clear previous results at the start of processing as well
+    try {
+      getImageProvider(provenance.providerId);
+      const hashes = await Promise.all(batch.items.map((item) => hashSourceDataUrl(item.sourceDataUrl)));
+      const item = batch.items.find(
+        (candidate, index) =>
+          hashes[index] === provenance.sourceSha256 && candidate.runSteps.some((step) => step.id === provenance.stepId),
+      );
+      if (!item) {
+        setError(
+          `Open and run the source this file was generated from (SHA-256 ${provenance.sourceSha256.slice(0, 12)}…) with a pipeline that has the step "${provenance.stepId}".`,
+        );
+        return;
+      }
+      batch.updateItem(item.id, { providerSettings: { providerId: provenance.providerId, model: provenance.model } });
+      setActiveItemId(item.id);
+      await runQueue(() => batch.regenerateStep(item.id, provenance.stepId, provenance.prompt));
+    } catch (err) {
+      setError(`Failed to re-run the step: ${describeError(err)}`);
+    }
+  }, [batch.items, batch.updateItem, batch.regenerateStep, runQueue]);
+
+  const handleRemoveItem = useCallback((id: string) => {
+    batch.removeItem(id);
+    lastSavedRef.current.delete(id);
+    setActiveItemId(prev => (prev === id ? null : prev));
+  }, [batch.removeItem]);
 
+  const handleClearItems = useCallback(() => {
+    batch.clearItems();
+    lastSavedRef.current.clear();
+    setActiveItemId(null);
+  }, [batch.clearItems]);
+
+  /**
+   * Archives the given sources: a single run ZIP for one source, or a folder per source otherwise.
+   */
+  const handleDownload = useCallback(async (items: BatchItem[], exportId: string) => {
+    setExportingId(exportId);
     try {
-      const reader = new FileReader();
-      reader.readAsDataURL(originalFile);
-      reader.onloadend = async () => {
-        const base64Data = (reader.result as string).split(',')[1];
-        const mimeType = originalFile.type;
-
-        await imageTransformations(base64Data, mimeType, setGeneratedImages); // Pass setGeneratedImages
-      };
-      reader.onerror = () => {
-        throw new Error('Failed to read the image file.');
-      };
+      const runs: RunArchiveOptions[] = [];
+      for (const item of items) {
+        const images = orderedImages(item);
+        const transparentImages: Record<string, string> = {};
+        if (downloadTransparent) {
+          for (const image of images) {
+            transparentImages[image.id] = (await chromaKeyImage(image, chromaKeyOptions)).src;
+          }
+        }
+        runs.push({ source: item.file, pipeline: pipelineOf(item, pipeline), images, transparentImages });
+      }
+      const archive = runs.length === 1 ? await createRunArchive(runs[0]) : await createBatchArchive(runs);
+      const url = URL.createObjectURL(archive);
+      const stem = runs.length === 1 ? toFileSlug(sourceStem(items[0])) : 'batch';
+      downloadUrl(url, `${stem}_${toFileSlug(pipeline.name)}.zip`);
+      URL.revokeObjectURL(url);
     } catch (err) {
-      console.error("Image processing failed:", err);
-      setError(`Failed to process image: ${err instanceof Error ? err.message : String(err)}`);
+      setError(`Failed to export images: ${describeError(err)}`);
     } finally {
-      setIsLoading(false);
-      setCurrentProcessingStep('');
-    }
-  }, [originalFile, imageTransformations]);
-
-  const handleDownloadAll = useCallback(() => {
-    generatedImages.forEach((image) => {
-      const link = document.createElement('a');
-      link.href = image.src;
-      link.download = `${image.name.replace(/\s+/g, '_').toLowerCase()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    });
-  }, [generatedImages]);
+      setExportingId(null);
+    }
+  }, [pipeline, downloadTransparent, chromaKeyOptions]);
+
+  const runningItem = batch.items.find((item) => item.status === 'running');
+  const activeImages = useMemo(() => (activeItem ? orderedImages(activeItem) : []), [activeItem]);
+  const itemsWithImages = batch.items.filter((item) => item.images.length > 0);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-100 via-indigo-100 to-blue-100 p-4 sm:p-6 lg:p-8">
+      <button
+        onClick={() => setIsHistoryOpen(true)}
+        className="fixed top-4 left-4 z-30 px-4 py-2 bg-white text-indigo-700 font-semibold rounded-lg shadow-md border border-gray-200 hover:bg-indigo-50"
+      >
+        History ({history.projects.length})
+      </button>
+
+      {isHistoryOpen && (
+        <HistorySidebar
+          projects={history.projects}
+          openProjectIds={batch.items.map((item) => item.id)}
+          storageEstimate={history.storageEstimate}
+          disabled={isLoading}
+          onOpen={handleOpenProject}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          onPrune={handlePruneProjects}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {croppingItem && (
+        <CropModal
+          file={croppingItem.upload?.original ?? croppingItem.file}
+          initialCrop={croppingItem.upload?.crop ?? null}
+          onApply={(crop) => handleCropSource(croppingItem, crop)}
+          onClose={() => setCroppingItemId(null)}
+        />
+      )}
+
       <header className="text-center mb-8">
         <h1 className="text-4xl font-extrabold text-indigo-800 sm:text-5xl lg:text-6xl tracking-tight">
           Gemini Image Studio
         </h1>
         <p className="mt-3 text-lg text-gray-700 sm:text-xl max-w-2xl mx-auto">
-          Upload an image to transform it into various views and poses with a green screen background.
+          Upload one or more images to transform them into various views and poses with a green screen background.
         </p>
       </header>
 
       <main className="max-w-6xl mx-auto">
         <section className="mb-10 p-6 bg-white rounded-xl shadow-lg border border-gray-200">
           <ImageUploader
-            onImageSelected={handleImageSelected}
-            previewUrl={originalImagePreview}
+            onImagesSelected={handleImagesSelected}
+            previewUrl={activeItem?.sourceDataUrl ?? null}
+            queuedCount={batch.items.length}
             isLoading={isLoading}
           />
-          {originalFile && (
-            <div className="mt-6 text-center">
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-4 text-sm text-gray-700">
+            <label title="Larger uploads are scaled down to this longest side. Applies to images added or cropped afterwards.">
+              Source size
+              <select
+                value={sourceSizeLimit ?? ''}
+                onChange={(e) => setSourceSizeLimit(e.target.value ? Number(e.target.value) : null)}
+                disabled={isLoading}
+                className="ml-2 px-2 py-1 border border-gray-300 rounded-md bg-white"
+              >
+                {SOURCE_SIZE_LIMITS.map((limit) => (
+                  <option key={limit ?? 'original'} value={limit ?? ''}>
+                    {limit ? `Up to ${limit}px` : 'Original'}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {activeItem && (
               <button
-                onClick={processImage}
+                onClick={() => setCroppingItemId(activeItem.id)}
+                disabled={isLoading || activeItem.runSteps.length > 0}
+                title={activeItem.runSteps.length > 0 ? 'This source has already been run. Add it again to crop it differently.' : undefined}
+                className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 disabled:opacity-50"
+              >
+                Crop Source
+              </button>
+            )}
+          </div>
+          {activeItem && (
+            <ReferenceImagesPanel
+              sourceName={activeItem.file.name}
+              references={activeItem.references}
+              onChange={(references) => batch.updateItem(activeItem.id, { references })}
+              onError={setError}
+              disabled={activeItem.status === 'running'}
+              maxDimension={sourceSizeLimit}
+            />
+          )}
+          {batch.items.length > 0 && (
+            <div className="mt-6 text-center">
+              <div className="mb-4 flex flex-wrap items-center justify-center gap-4">
+                <ProviderSelector settings={providerSettings} onChange={setProviderSettings} disabled={isLoading} />
+                <label className="text-sm text-gray-700">
+                  Parallel steps
+                  <input
+                    type="number"
+                    min={1}
+                    max={8}
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(Math.max(1, Number(e.target.value) || 1))}
+                    disabled={isLoading}
+                    className="ml-2 w-16 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </label>
+                <label className="text-sm text-gray-700 flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={useCache}
+                    onChange={(e) => setUseCache(e.target.checked)}
+                    disabled={isLoading}
+                  />
+                  Reuse cached results
+                </label>
+                <label className="text-sm text-gray-700">
+                  Cache size (MB)
+                  <input
+                    type="number"
+                    min={0}
+                    step={50}
+                    value={cacheSizeMb}
+                    onChange={(e) => setCacheSizeMb(Math.max(0, Number(e.target.value) || 0))}
+                    disabled={isLoading}
+                    className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </label>
+                <button
+                  onClick={handleClearCache}
+                  disabled={isLoading}
+                  className="px-3 py-1 text-sm bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Clear Cache
+                </button>
+              </div>
+              <TemplateVariablesForm
+                variables={pipeline.variables ?? []}
+                values={templateValues}
+                onChange={setTemplateValues}
                 disabled={isLoading}
+              />
+              <button
+                onClick={processImages}
+                disabled={isLoading || !isPipelineValid}
                 className="px-8 py-3 bg-green-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors duration-200 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isLoading ? 'Processing...' : 'Start Image Transformations'}
@@ -198,6 +509,42 @@ function App() {
           )}
         </section>
 
+        {batch.items.length > 1 && (
+          <BatchQueue
+            items={batch.items}
+            queueState={batch.queueState}
+            activeItemId={activeItem?.id ?? null}
+            canStart={isPipelineValid}
+            onStart={processImages}
+            onPause={batch.pauseQueue}
+            onCancel={batch.cancelQueue}
+            onSelect={setActiveItemId}
+            onRerun={(id) => runQueue(() => batch.restartItems([id]))}
+            onRemove={handleRemoveItem}
+            onClear={handleClearItems}
+          />
+        )}
+
+        <PipelineEditor
+          pipeline={pipeline}
+          onChange={setPipeline}
+          onReset={() => setPipeline(DEFAULT_PIPELINE)}
+          disabled={isLoading}
+        />
+
+        <UsagePanel
+          runUsage={activeItem?.usage ?? null}
+          runName={activeItem?.file.name}
+          dailyUsage={dailyUsage}
+          prices={usageSettings.prices}
+          onPricesChange={(prices) => updateUsageSettings({ ...usageSettings, prices })}
+          budget={usageSettings.budget}
+          onBudgetChange={(budget) => updateUsageSettings({ ...usageSettings, budget })}
+          disabled={isLoading}
+        />
+
+        <ProvenanceInspector onRerun={handleRerunFromProvenance} disabled={isLoading} />
+
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative my-8" role="alert">
             <strong className="font-bold">Error: </strong>
@@ -205,38 +552,157 @@ function App() {
           </div>
         )}
 
-        {generatedImages.length > 0 && (
+        {startedItems.length > 0 && (
           <section className="mt-10">
             <h2 className="text-3xl font-bold text-gray-800 mb-6 text-center">Generated Images</h2>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {generatedImages.map((image) => (
-                <GeneratedImageCard key={image.id} image={image} />
-              ))}
-            </div>
-            {!isLoading && ( // Only show download all button if not loading
+            <ChromaKeyControls options={chromaKeyOptions} onChange={setChromaKeyOptions} />
+            {startedItems.map((item) => {
+              const hasIncompleteSteps = item.runSteps.some((step) => !item.images.some((image) => image.stepId === step.id));
+              const staleStepIds = findStaleSteps(item.runSteps, item.images, item.references);
+              return (
+                <div key={item.id} className="mb-12">
+                  {startedItems.length > 1 && (
+                    <div className="flex items-center gap-3 mb-4">
+                      <img src={item.sourceDataUrl} alt={item.file.name} className="w-10 h-10 object-cover rounded-md border border-gray-200" />
+                      <h3 className="text-2xl font-semibold text-gray-800">{item.file.name}</h3>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {item.runSteps.map((step) => {
+                      const image = item.images.find((candidate) => candidate.stepId === step.id);
+                      return image ? (
+                        <GeneratedImageCard
+                          key={step.id}
+                          image={image}
+                          versions={item.versions[step.id] ?? [image]}
+                          chromaKeyOptions={chromaKeyOptions}
+                          sourceDataUrl={item.sourceDataUrl}
+                          prices={usageSettings.prices}
+                          status={item.stepStatuses[step.id]}
+                          message={item.stepMessages[step.id]}
+                          isStale={staleStepIds.includes(step.id)}
+                          disabled={isLoading}
+                          onRegenerate={(prompt) => runQueue(() => batch.regenerateStep(item.id, step.id, prompt))}
+                          onRefine={(version, instruction) => runQueue(() => batch.refineVersion(item.id, version, instruction))}
+                          onInpaint={(version, maskSrc, instruction) =>
+                            runQueue(() => batch.inpaintVersion(item.id, version, maskSrc, instruction))
+                          }
+                          onSelectVersion={(version) => batch.selectVersion(item.id, version)}
+                        />
+                      ) : (
+                        <StepPlaceholderCard
+                          key={step.id}
+                          step={step}
+                          status={item.stepStatuses[step.id] ?? 'queued'}
+                          message={item.stepMessages[step.id]}
+                          onRetry={isLoading ? undefined : () => runQueue(() => batch.regenerateStep(item.id, step.id))}
+                        />
+                      );
+                    })}
+                  </div>
+                  {!isLoading && (hasIncompleteSteps || item.images.length > 0) && (
+                    <div className="mt-6 flex flex-wrap justify-center gap-4">
+                      {staleStepIds.length > 0 && (
+                        <button
+                          onClick={() => runQueue(() => batch.rerunStaleSteps(item.id))}
+                          className="px-6 py-2 bg-yellow-500 text-white font-semibold rounded-lg shadow-md hover:bg-yellow-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-400 transition-colors duration-200"
+                        >
+                          Re-run {staleStepIds.length} Stale Step{staleStepIds.length === 1 ? '' : 's'}
+                        </button>
+                      )}
+                      {hasIncompleteSteps && (
+                        <button
+                          onClick={() => runQueue(() => batch.resumeItem(item.id))}
+                          className="px-6 py-2 bg-green-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors duration-200"
+                        >
+                          Resume Run
+                        </button>
+                      )}
+                      {item.images.length > 0 && (
+                        <button
+                          onClick={() => handleDownload([item], item.id)}
+                          disabled={exportingId !== null}
+                          className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {exportingId === item.id ? 'Building ZIP...' : 'Download (ZIP)'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            {!isLoading && itemsWithImages.length > 0 && ( // Only show download all button if not loading
               <div className="mt-10 text-center">
                 <button
-                  onClick={handleDownloadAll}
-                  className="px-8 py-3 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors duration-200 text-lg"
+                  onClick={() => handleDownload(itemsWithImages, ALL_ITEMS)}
+                  disabled={exportingId !== null}
+                  className="px-8 py-3 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors duration-200 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Download All Images
+                  {exportingId === ALL_ITEMS ? 'Building ZIP...' : 'Download All (ZIP)'}
                 </button>
+                <label className="mt-3 flex items-center justify-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={downloadTransparent}
+                    onChange={(e) => setDownloadTransparent(e.target.checked)}
+                  />
+                  Include transparent PNGs
+                </label>
               </div>
             )}
           </section>
         )}
+
+        {!isLoading && activeItem && activeImages.length > 0 && (
+          <>
+            <TurntablePlayer
+              key={activeItem.id}
+              images={activeImages}
+              chromaKeyOptions={chromaKeyOptions}
+              exportName={toFileSlug(sourceStem(activeItem))}
+            />
+            <CompositorPanel
+              images={activeImages}
+              chromaKeyOptions={chromaKeyOptions}
+              exportName={toFileSlug(sourceStem(activeItem))}
+            />
+          </>
+        )}
       </main>
 
       {isLoading && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="text-center p-6 bg-white rounded-lg shadow-xl flex flex-col items-center max-w-sm mx-auto">
+        <div className="fixed bottom-4 right-4 z-50">
+          <div className="text-center p-6 bg-white rounded-lg shadow-xl flex flex-col items-center max-w-sm mx-auto border border-gray-200">
             <LoadingSpinner />
-            <p className="mt-4 text-indigo-700 font-bold text-xl">
-              {currentProcessingStep || 'Please wait while Gemini generates your images...'}
-            </p>
-            <p className="text-sm text-indigo-500 mt-2">
-              This might take a few moments as multiple images are being generated.
-            </p>
+            {runningItem ? (
+              <>
+                <p className="mt-4 text-indigo-700 font-bold text-xl">
+                  {runningItem.runSteps.filter((step) => runningItem.stepStatuses[step.id] === 'done').length} of{' '}
+                  {runningItem.runSteps.length} steps done
+                </p>
+                <p className="text-sm text-indigo-500 mt-2">
+                  {batch.items.length > 1 && `Source ${batch.items.indexOf(runningItem) + 1} of ${batch.items.length}: `}
+                  {runningItem.file.name}
+                </p>
+              </>
+            ) : (
+              <p className="mt-4 text-sm text-indigo-500">Preparing the run...</p>
+            )}
+            <div className="mt-4 flex gap-3">
+              <button
+                onClick={batch.pauseQueue}
+                className="px-6 py-2 bg-yellow-500 text-white font-semibold rounded-lg shadow-md hover:bg-yellow-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-400 transition-colors duration-200"
+              >
+                Pause
+              </button>
+              <button
+                onClick={batch.cancelQueue}
+                className="px-6 py-2 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            </div>
           </div>
         </div>
       )}
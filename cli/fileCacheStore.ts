@@ -0,0 +1,55 @@
+import { mkdir, readFile, readdir, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CacheEntryInfo, ResultCacheStore } from '../services/resultCache';
+
+const isNotFound = (error: unknown) => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+/**
+ * A result cache kept as one file per result in a directory. A file's modification time is its
+ * last-used time, so reads touch the file.
+ * @param dir The cache directory, created on first write.
+ */
+export const createFileCacheStore = (dir: string): ResultCacheStore => {
+  const fileFor = (key: string) => path.join(dir, key);
+
+  return {
+    get: async (key) => {
+      try {
+        const bytes = await readFile(fileFor(key));
+        const now = new Date();
+        await utimes(fileFor(key), now, now);
+        return bytes.toString('base64');
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    set: async (key, base64) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(key), Buffer.from(base64, 'base64'));
+    },
+    entries: async () => {
+      let names: string[];
+      try {
+        names = await readdir(dir);
+      } catch (error) {
+        if (isNotFound(error)) {
+          return [];
+        }
+        throw error;
+      }
+      return Promise.all(
+        names.map(async (key): Promise<CacheEntryInfo> => {
+          const { size, mtimeMs } = await stat(fileFor(key));
+          return { key, size, lastUsedAt: mtimeMs };
+        }),
+      );
+    },
+    delete: async (keys) => {
+      await Promise.all(keys.map((key) => rm(fileFor(key), { force: true })));
+    },
+    clear: () => rm(dir, { recursive: true, force: true }),
+  };
+};
@@ -0,0 +1,332 @@
+/**
+ * Runs the character sheet pipeline over a folder of images without a browser.
+ *
+ *   npm run sheet -- <input-dir> <output-dir> [--concurrency N] [--pipeline file.json] [--model id] [--force]
+ *                    [--cache-dir dir] [--cache-size MB] [--no-cache] [--max-calls N] [--max-tokens N]
+ *                    [--var name=value ...] [--record fixture.json | --replay fixture.json]
+ *
+ * Each source gets a folder in the output directory laid out like the app's ZIP export, with a
+ * `manifest.json`. Sources whose manifest already covers every step of the pipeline, with the same
+ * prompts and model, are skipped, so an interrupted batch can be restarted with the same command.
+ * Reads the API key from GEMINI_API_KEY (or API_KEY). Results are cached on disk, so identical requests are not paid for twice.
+ * `--record` saves every request and response to a fixture file that `--replay` (or a test) can
+ * serve back offline.
+ */
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_CONCURRENCY, DEFAULT_PIPELINE } from '../constants';
+import { GeneratedImage, Pipeline, UsageTotals } from '../types';
+import { describeError } from '../services/errors';
+import { RunManifest, createRunEntries } from '../services/exportService';
+import {
+  GEMINI_IMAGE_MODELS,
+  GeminiFixture,
+  createRecordingTransport,
+  createReplayTransport,
+  geminiProvider,
+  liveGeminiTransport,
+  parseGeminiFixture,
+  setGeminiTransport,
+} from '../services/geminiService';
+import { createGeneratedImage, parsePipelineJson, runPipeline, validatePipeline } from '../services/pipelineService';
+import { checkTemplateValue, renderPipeline } from '../services/promptTemplate';
+import { DEFAULT_CACHE_MAX_BYTES, ResultCacheOptions } from '../services/resultCache';
+import { DEFAULT_PRICE_TABLE, EMPTY_USAGE, UsageBudget, estimateCost, formatCost, sumUsage } from '../services/usage';
+import { sniffImageMimeType, toFileSlug } from '../utils/fileUtils';
+import { sha256Hex } from '../utils/hash';
+import { createFileCacheStore } from './fileCacheStore';
+
+const DEFAULT_CACHE_FOLDER = '.cache';
+
+const USAGE = `Usage: npm run sheet -- <input-dir> <output-dir> [options]
+
+Options:
+  --concurrency N     Steps to run at once per source (default ${DEFAULT_CONCURRENCY})
+  --pipeline FILE     Pipeline JSON exported from the app or from presets/ (default: the built-in pipeline)
+  --var NAME=VALUE    Value of a template variable, e.g. --var background=#0000FF (repeatable)
+  --model ID          Gemini model (default ${GEMINI_IMAGE_MODELS[0]})
+  --force             Reprocess sources that already have a complete manifest
+  --cache-dir DIR     Result cache directory (default <output-dir>/${DEFAULT_CACHE_FOLDER})
+  --cache-size MB     Evict least recently used results above this size (default ${DEFAULT_CACHE_MAX_BYTES / 1024 / 1024})
+  --no-cache          Call the API for every step, even if an identical result is cached
+  --max-calls N       Skip sources needing more API calls than this, and stop a source's run at it
+  --max-tokens N      Stop a source's run before it could use more tokens than this
+  --record FILE       Save every Gemini request and response to a fixture file (use with --no-cache)
+  --replay FILE       Answer from a recorded fixture instead of the API; needs no API key
+  -h, --help          Show this help`;
+
+interface SourceFile {
+  path: string;
+  name: string;
+  bytes: Uint8Array;
+  mimeType: string;
+  /** Output folder name, unique within the batch. */
+  folder: string;
+}
+
+/**
+ * Lists the images in a directory, sorted by name. Files are recognised by their magic bytes,
+ * so anything that is not a supported image is ignored whatever its extension.
+ */
+const readSources = async (dir: string): Promise<SourceFile[]> => {
+  const names = (await readdir(dir, { withFileTypes: true }))
+    .filter((entry) => entry.isFile())
+    .map((entry) => entry.name)
+    .sort();
+  const usedFolders = new Set<string>();
+  const sources: SourceFile[] = [];
+  for (const name of names) {
+    const filePath = path.join(dir, name);
+    const bytes = new Uint8Array(await readFile(filePath));
+    const mimeType = sniffImageMimeType(bytes);
+    if (!mimeType) {
+      continue;
+    }
+    const stem = toFileSlug(name.replace(/\.[^.]+$/, ''));
+    let folder = stem;
+    for (let suffix = 2; usedFolders.has(folder); suffix++) {
+      folder = `${stem}_${suffix}`;
+    }
+    usedFolders.add(folder);
+    sources.push({ path: filePath, name, bytes, mimeType, folder });
+  }
+  return sources;
+};
+
+/**
+ * Whether a previous run already produced every step of the pipeline for this exact source,
+ * with the same prompts and model.
+ */
+const isProcessed = async (source: SourceFile, outDir: string, pipeline: Pipeline, model: string): Promise<boolean> => {
+  let manifest: RunManifest;
+  try {
+    manifest = JSON.parse(await readFile(path.join(outDir, 'manifest.json'), 'utf8'));
+  } catch {
+    return false;
+  }
+  const doneSteps = new Map(manifest.steps?.map((step) => [step.stepId, step]));
+  return (
+    manifest.source?.sha256 === (await sha256Hex(source.bytes)) &&
+    pipeline.steps.every((step) => {
+      const done = doneSteps.get(step.id);
+      return done?.prompt === step.prompt && done.model === model;
+    })
+  );
+};
+
+const describeUsage = (usage: UsageTotals, model: string) =>
+  `${usage.calls} call(s), ${usage.totalTokens.toLocaleString()} tokens, ~${formatCost(estimateCost(usage, model, DEFAULT_PRICE_TABLE))}`;
+
+/**
+ * Runs the pipeline on one source and writes its outputs and manifest.
+ * @returns Whether every step succeeded, and the run's usage.
+ */
+const processSource = async (
+  source: SourceFile,
+  outDir: string,
+  pipeline: Pipeline,
+  options: { model: string; concurrency: number; cache: ResultCacheOptions; budget: UsageBudget },
+): Promise<{ complete: boolean; usage: UsageTotals }> => {
+  const log = (message: string) => console.log(`[${source.name}] ${message}`);
+  const images: GeneratedImage[] = [];
+
+  const { failures, budgetExceeded, usage } = await runPipeline(
+    pipeline,
+    { base64: Buffer.from(source.bytes).toString('base64'), mimeType: source.mimeType },
+    {
+      provider: geminiProvider,
+      model: options.model,
+      concurrency: options.concurrency,
+      cache: options.cache,
+      budget: options.budget,
+      onStepStatus: (step, status, error) => {
+        if (status === 'running') {
+          log(`${step.name}: ${status}`);
+        } else if (status === 'failed') {
+          log(`${step.name}: failed - ${describeError(error)}`);
+        }
+      },
+      onStepRetry: (step, attempt, error) => log(`${step.name}: retrying after attempt ${attempt} (${describeError(error)})`),
+      onStepComplete: (step, output, { cached }) => {
+        log(`${step.name}: done${cached ? ' (cached)' : ''}`);
+        images.push(createGeneratedImage(step, output, { providerId: geminiProvider.id, model: options.model, cached }));
+      },
+    },
+  );
+
+  // Number outputs in pipeline order rather than completion order, as the app does.
+  const ordered = pipeline.steps
+    .map((step) => images.find((image) => image.stepId === step.id))
+    .filter((image): image is GeneratedImage => Boolean(image));
+  const entries = await createRunEntries({
+    source: new File([source.bytes], source.name, { type: source.mimeType }),
+    pipeline,
+    images: ordered,
+  });
+  for (const entry of entries) {
+    const filePath = path.join(outDir, entry.name);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, entry.data);
+  }
+
+  const failed = Object.keys(failures).length;
+  const complete = ordered.length === pipeline.steps.length;
+  if (budgetExceeded) {
+    log(`stopped at the run budget with ${ordered.length} of ${pipeline.steps.length} steps written`);
+  } else {
+    log(failed > 0 ? `${ordered.length} of ${pipeline.steps.length} steps written, ${failed} failed` : 'done');
+  }
+  log(describeUsage(usage, options.model));
+  return { complete: failed === 0 && complete, usage };
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      concurrency: { type: 'string' },
+      pipeline: { type: 'string' },
+      model: { type: 'string' },
+      force: { type: 'boolean' },
+      'cache-dir': { type: 'string' },
+      'cache-size': { type: 'string' },
+      'no-cache': { type: 'boolean' },
+      'max-calls': { type: 'string' },
+      'max-tokens': { type: 'string' },
+      var: { type: 'string', multiple: true },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const [inputDir, outputDir] = positionals;
+  if (!inputDir || !outputDir) {
+    console.error(USAGE);
+    return 2;
+  }
+  const concurrency = values.concurrency === undefined ? DEFAULT_CONCURRENCY : Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error('--concurrency must be a positive integer.');
+    return 2;
+  }
+  const model = values.model ?? GEMINI_IMAGE_MODELS[0];
+  const cacheSizeMb = values['cache-size'] === undefined ? DEFAULT_CACHE_MAX_BYTES / 1024 / 1024 : Number(values['cache-size']);
+  if (!(cacheSizeMb >= 0)) {
+    console.error('--cache-size must be a number of megabytes.');
+    return 2;
+  }
+  const budget: UsageBudget = {};
+  for (const [flag, field] of [['max-calls', 'maxCalls'], ['max-tokens', 'maxTokens']] as const) {
+    const value = values[flag];
+    if (value !== undefined) {
+      const limit = Number(value);
+      if (!Number.isInteger(limit) || limit < 0) {
+        console.error(`--${flag} must be a non-negative integer.`);
+        return 2;
+      }
+      budget[field] = limit;
+    }
+  }
+  const cache: ResultCacheOptions = {
+    store: createFileCacheStore(values['cache-dir'] ?? path.join(outputDir, DEFAULT_CACHE_FOLDER)),
+    maxBytes: cacheSizeMb * 1024 * 1024,
+    bypass: values['no-cache'],
+  };
+
+  const template = values.pipeline ? parsePipelineJson(await readFile(values.pipeline, 'utf8')) : DEFAULT_PIPELINE;
+  const problems = validatePipeline(template);
+  if (problems.length > 0) {
+    console.error(`Invalid pipeline:\n  ${problems.join('\n  ')}`);
+    return 2;
+  }
+  const templateValues: Record<string, string> = {};
+  for (const assignment of values.var ?? []) {
+    const separator = assignment.indexOf('=');
+    const name = assignment.slice(0, separator);
+    const variable = template.variables?.find((candidate) => candidate.name === name);
+    if (separator < 0 || !variable) {
+      const names = (template.variables ?? []).map((candidate) => candidate.name).join(', ') || 'none';
+      console.error(`--var ${assignment}: expected NAME=VALUE with one of the pipeline's variables (${names}).`);
+      return 2;
+    }
+    const value = assignment.slice(separator + 1);
+    const problem = checkTemplateValue(variable, value);
+    if (problem) {
+      console.error(`--var ${assignment}: ${problem}`);
+      return 2;
+    }
+    templateValues[name] = value;
+  }
+  const pipeline = renderPipeline(template, templateValues);
+  if (pipeline.steps.some((step) => step.validation)) {
+    console.warn('Quality checks need a browser to decode images and are skipped by the CLI.');
+  }
+
+  if (values.record && values.replay) {
+    console.error('--record and --replay cannot be used together.');
+    return 2;
+  }
+  let recording: GeminiFixture | null = null;
+  if (values.replay) {
+    setGeminiTransport(createReplayTransport(parseGeminiFixture(await readFile(values.replay, 'utf8'))));
+  } else {
+    // geminiService reads the key the Vite build injects as process.env.API_KEY.
+    process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+    if (!process.env.API_KEY) {
+      console.error('Set GEMINI_API_KEY to your Gemini API key.');
+      return 2;
+    }
+    if (values.record) {
+      recording = { version: 1, exchanges: [] };
+      setGeminiTransport(createRecordingTransport(liveGeminiTransport, recording));
+    }
+  }
+
+  const sources = await readSources(inputDir);
+  console.log(`Found ${sources.length} image(s) in ${inputDir}.`);
+  let failedSources = 0;
+  let usage = EMPTY_USAGE;
+  for (const source of sources) {
+    const outDir = path.join(outputDir, source.folder);
+    if (!values.force && (await isProcessed(source, outDir, pipeline, model))) {
+      console.log(`[${source.name}] already processed, skipping`);
+      continue;
+    }
+    try {
+      const result = await processSource(source, outDir, pipeline, { model, concurrency, cache, budget });
+      usage = sumUsage(usage, result.usage);
+      if (!result.complete) {
+        failedSources++;
+      }
+    } catch (error) {
+      console.error(`[${source.name}] ${describeError(error)}`);
+      failedSources++;
+    }
+  }
+  console.log(`Total: ${describeUsage(usage, model)}`);
+  if (values.record && recording) {
+    await mkdir(path.dirname(values.record), { recursive: true });
+    await writeFile(values.record, `${JSON.stringify(recording, null, 2)}\n`);
+    console.log(`Recorded ${recording.exchanges.length} request(s) to ${values.record}.`);
+  }
+  if (failedSources > 0) {
+    console.error(`${failedSources} source(s) did not complete; run the same command again to retry them.`);
+    return 1;
+  }
+  return 0;
+};
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(describeError(error));
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,139 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { QueueState } from '../hooks/useBatchQueue';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  queueState: QueueState;
+  activeItemId: string | null;
+  canStart: boolean;
+  onStart: () => void;
+  onPause: () => void;
+  onCancel: () => void;
+  onSelect: (id: string) => void;
+  onRerun: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-gray-100 text-gray-600' },
+  running: { label: 'Running', className: 'bg-indigo-100 text-indigo-700' },
+  paused: { label: 'Paused', className: 'bg-yellow-100 text-yellow-800' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  queueState,
+  activeItemId,
+  canStart,
+  onStart,
+  onPause,
+  onCancel,
+  onSelect,
+  onRerun,
+  onRemove,
+  onClear,
+}) => {
+  const isRunning = queueState === 'running';
+  const hasWork = items.some((item) => item.status === 'pending' || item.status === 'paused');
+
+  return (
+    <section className="mb-10 p-6 bg-white rounded-xl shadow-lg border border-gray-200">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-gray-800">Batch Queue ({items.length})</h2>
+        <div className="flex flex-wrap gap-2">
+          {isRunning ? (
+            <>
+              <button
+                onClick={onPause}
+                className="px-4 py-2 bg-yellow-500 text-white font-semibold rounded-lg shadow-md hover:bg-yellow-600"
+              >
+                Pause
+              </button>
+              <button
+                onClick={onCancel}
+                className="px-4 py-2 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={onStart}
+                disabled={!canStart || !hasWork}
+                className="px-4 py-2 bg-green-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {queueState === 'paused' ? 'Resume Queue' : 'Start Queue'}
+              </button>
+              <button
+                onClick={onClear}
+                className="px-4 py-2 bg-gray-100 text-gray-800 font-semibold rounded-lg hover:bg-gray-200"
+              >
+                Clear
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {items.map((item) => {
+          const { label, className } = STATUS_STYLES[item.status];
+          const doneCount = item.runSteps.filter((step) => item.images.some((image) => image.stepId === step.id)).length;
+          const progress = item.runSteps.length > 0 ? doneCount / item.runSteps.length : 0;
+          return (
+            <li
+              key={item.id}
+              className={`flex items-center gap-4 py-3 px-2 rounded-md ${item.id === activeItemId ? 'bg-indigo-50' : ''}`}
+            >
+              <img src={item.sourceDataUrl} alt={item.file.name} className="w-14 h-14 object-cover rounded-md border border-gray-200" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold text-gray-800 truncate" title={item.file.name}>
+                    {item.file.name}
+                  </h3>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${className}`}>{label}</span>
+                </div>
+                <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${progress * 100}%` }} />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {item.runSteps.length > 0 ? `${doneCount} of ${item.runSteps.length} steps done` : 'Not started'}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <button
+                  onClick={() => onSelect(item.id)}
+                  className="px-2 py-1 bg-indigo-500 text-white rounded-md hover:bg-indigo-600"
+                >
+                  View
+                </button>
+                <button
+                  onClick={() => onRerun(item.id)}
+                  disabled={isRunning || !canStart || item.runSteps.length === 0}
+                  className="px-2 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Re-run
+                </button>
+                <button
+                  onClick={() => onRemove(item.id)}
+                  disabled={item.status === 'running'}
+                  className="px-2 py-1 bg-red-50 text-red-700 rounded-md hover:bg-red-100 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default BatchQueue;
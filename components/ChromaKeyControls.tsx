@@ -0,0 +1,60 @@
+import React from 'react';
+import { ChromaKeyOptions, DEFAULT_CHROMA_KEY_OPTIONS } from '../services/chromaKey';
+
+interface ChromaKeyControlsProps {
+  options: ChromaKeyOptions;
+  onChange: (options: ChromaKeyOptions) => void;
+}
+
+const SLIDERS: { key: 'tolerance' | 'softness' | 'spillSuppression'; label: string }[] = [
+  { key: 'tolerance', label: 'Tolerance' },
+  { key: 'softness', label: 'Edge softness' },
+  { key: 'spillSuppression', label: 'Spill suppression' },
+];
+
+const ChromaKeyControls: React.FC<ChromaKeyControlsProps> = ({ options, onChange }) => {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-4 p-4 mb-6 bg-white rounded-lg border border-gray-200 text-sm text-gray-700">
+      <span className="font-semibold text-gray-800">Transparency</span>
+      <label className="flex items-center gap-2">
+        Key colour
+        <input
+          type="color"
+          value={options.keyColor}
+          onChange={(e) => onChange({ ...options, keyColor: e.target.value })}
+          className="h-8 w-10 border border-gray-300 rounded"
+        />
+      </label>
+      {SLIDERS.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-2">
+          {label}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={options[key]}
+            onChange={(e) => onChange({ ...options, [key]: Number(e.target.value) })}
+          />
+          <span className="w-10 text-right tabular-nums">{options[key].toFixed(2)}</span>
+        </label>
+      ))}
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={options.trim}
+          onChange={(e) => onChange({ ...options, trim: e.target.checked })}
+        />
+        Trim to subject
+      </label>
+      <button
+        onClick={() => onChange(DEFAULT_CHROMA_KEY_OPTIONS)}
+        className="px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200"
+      >
+        Reset
+      </button>
+    </div>
+  );
+};
+
+export default ChromaKeyControls;
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { ChromaKeyOptions } from '../services/chromaKey';
+import {
+  AtlasFrameMap,
+  NormalizedFrame,
+  normalizeImages,
+  renderSpriteAtlas,
+  renderTurnaroundSheet,
+} from '../services/compositor';
+import { downloadUrl } from '../utils/fileUtils';
+
+interface CompositorPanelProps {
+  images: GeneratedImage[];
+  chromaKeyOptions: ChromaKeyOptions;
+  /** File name stem for exports, e.g. the source image name. */
+  exportName: string;
+}
+
+type LayoutMode = 'sheet' | 'atlas';
+
+const BACKGROUNDS: { label: string; value: string | null }[] = [
+  { label: 'Transparent', value: null },
+  { label: 'White', value: '#ffffff' },
+  { label: 'Grey', value: '#9ca3af' },
+];
+
+const CompositorPanel: React.FC<CompositorPanelProps> = ({ images, chromaKeyOptions, exportName }) => {
+  const [mode, setMode] = useState<LayoutMode>('sheet');
+  const [subjectHeight, setSubjectHeight] = useState<number>(512);
+  const [padding, setPadding] = useState<number>(32);
+  const [atlasWidth, setAtlasWidth] = useState<number>(2048);
+  const [showLabels, setShowLabels] = useState<boolean>(true);
+  const [background, setBackground] = useState<string | null>('#ffffff');
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [frames, setFrames] = useState<NormalizedFrame[]>([]);
+  const [preview, setPreview] = useState<{ src: string; frameMap: AtlasFrameMap | null } | null>(null);
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Normalising keys and rescales every image, so only redo it when the inputs change.
+  useEffect(() => {
+    let isCurrent = true;
+    setIsWorking(true);
+    const selectedImages = images.filter((image) => !excludedIds.has(image.id));
+    normalizeImages(selectedImages, subjectHeight, chromaKeyOptions)
+      .then((result) => {
+        if (isCurrent) {
+          setFrames(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setIsWorking(false);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [images, excludedIds, subjectHeight, chromaKeyOptions]);
+
+  useEffect(() => {
+    if (frames.length === 0) {
+      setPreview(null);
+      return;
+    }
+    if (mode === 'sheet') {
+      const canvas = renderTurnaroundSheet(frames, { padding, showLabels, background });
+      setPreview({ src: canvas.toDataURL('image/png'), frameMap: null });
+    } else {
+      const { canvas, frameMap } = renderSpriteAtlas(frames, atlasWidth, padding, `${exportName}_atlas.png`);
+      setPreview({ src: canvas.toDataURL('image/png'), frameMap });
+    }
+  }, [frames, mode, padding, showLabels, background, atlasWidth, exportName]);
+
+  const toggleImage = (imageId: string) => {
+    setExcludedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(imageId)) {
+        next.delete(imageId);
+      } else {
+        next.add(imageId);
+      }
+      return next;
+    });
+  };
+
+  const handleExportPng = () => {
+    if (preview) {
+      downloadUrl(preview.src, `${exportName}_${mode === 'sheet' ? 'turnaround' : 'atlas'}.png`);
+    }
+  };
+
+  const handleExportFrameMap = () => {
+    if (!preview?.frameMap) {
+      return;
+    }
+    const blob = new Blob([JSON.stringify(preview.frameMap, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, `${exportName}_atlas.json`);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="mt-10 p-6 bg-white rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Turnaround Sheet &amp; Sprite Atlas</h2>
+
+      <div className="flex flex-wrap items-center justify-center gap-4 mb-4 text-sm text-gray-700">
+        <div className="flex rounded-md overflow-hidden border border-gray-300">
+          {(['sheet', 'atlas'] as LayoutMode[]).map((candidate) => (
+            <button
+              key={candidate}
+              onClick={() => setMode(candidate)}
+              className={`px-4 py-1 ${mode === candidate ? 'bg-gray-800 text-white' : 'bg-white text-gray-700'}`}
+            >
+              {candidate === 'sheet' ? 'Turnaround sheet' : 'Sprite atlas'}
+            </button>
+          ))}
+        </div>
+        <label>
+          Subject height
+          <input
+            type="number"
+            min={64}
+            max={2048}
+            step={32}
+            value={subjectHeight}
+            onChange={(e) => setSubjectHeight(Math.max(64, Number(e.target.value) || 64))}
+            className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label>
+          Padding
+          <input
+            type="number"
+            min={0}
+            max={256}
+            value={padding}
+            onChange={(e) => setPadding(Math.max(0, Number(e.target.value) || 0))}
+            className="ml-2 w-16 px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+        {mode === 'sheet' ? (
+          <>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={showLabels} onChange={(e) => setShowLabels(e.target.checked)} />
+              Labels
+            </label>
+            <label>
+              Background
+              <select
+                value={background ?? ''}
+                onChange={(e) => setBackground(e.target.value || null)}
+                className="ml-2 px-2 py-1 border border-gray-300 rounded-md bg-white"
+              >
+                {BACKGROUNDS.map(({ label, value }) => (
+                  <option key={label} value={value ?? ''}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        ) : (
+          <label>
+            Max width
+            <input
+              type="number"
+              min={256}
+              max={8192}
+              step={256}
+              value={atlasWidth}
+              onChange={(e) => setAtlasWidth(Math.max(256, Number(e.target.value) || 256))}
+              className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3 mb-4 text-sm text-gray-700">
+        {images.map((image) => (
+          <label key={image.id} className="flex items-center gap-1">
+            <input type="checkbox" checked={!excludedIds.has(image.id)} onChange={() => toggleImage(image.id)} />
+            {image.name}
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-700 text-center mb-4">{error}</p>}
+
+      <div className="w-full min-h-[12rem] bg-gray-50 border border-gray-200 rounded-lg flex items-center justify-center p-2 overflow-auto">
+        {isWorking ? (
+          <span className="text-gray-500 text-sm">Normalising images...</span>
+        ) : preview ? (
+          <img src={preview.src} alt="Composited layout preview" className="max-w-full" />
+        ) : (
+          <span className="text-gray-500 text-sm">Select at least one image with a visible subject.</span>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap justify-center gap-3">
+        <button
+          onClick={handleExportPng}
+          disabled={!preview || isWorking}
+          className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export PNG
+        </button>
+        {mode === 'atlas' && (
+          <button
+            onClick={handleExportFrameMap}
+            disabled={!preview?.frameMap || isWorking}
+            className="px-6 py-2 bg-gray-700 text-white font-semibold rounded-lg shadow-md hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export Frame Map (JSON)
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CompositorPanel;
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CropRect } from '../types';
+import { clampCrop, decodeUpright } from '../services/preprocess';
+
+interface CropModalProps {
+  /** The upload to crop, before any preprocessing. */
+  file: File;
+  /** The crop to start from, or null for the whole image. */
+  initialCrop: CropRect | null;
+  /** Called with the chosen crop, or null to keep the whole image. */
+  onApply: (crop: CropRect | null) => void;
+  onClose: () => void;
+}
+
+const ASPECT_RATIOS: { label: string; value: number | null }[] = [
+  { label: 'Free', value: null },
+  { label: '1:1', value: 1 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '2:3', value: 2 / 3 },
+  { label: '9:16', value: 9 / 16 },
+];
+
+/** Crops smaller than this many image pixels on a side are treated as a click and ignored. */
+const MIN_CROP_SIZE = 16;
+
+type Drag = { mode: 'draw'; originX: number; originY: number } | { mode: 'move'; offsetX: number; offsetY: number };
+
+const CropModal: React.FC<CropModalProps> = ({ file, initialCrop, onApply, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(initialCrop);
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Draw the upright image at full resolution, so crop coordinates are image pixels.
+  useEffect(() => {
+    let isCurrent = true;
+    decodeUpright(file)
+      .then((bitmap) => {
+        const canvas = canvasRef.current;
+        if (isCurrent && canvas) {
+          canvas.width = bitmap.width;
+          canvas.height = bitmap.height;
+          canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+          setSize({ width: bitmap.width, height: bitmap.height });
+        }
+        bitmap.close();
+      })
+      .catch((err) => setError(`Failed to open ${file.name}: ${err instanceof Error ? err.message : String(err)}`));
+    return () => {
+      isCurrent = false;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  /** Converts a pointer position to image pixels, since the canvas is displayed scaled. */
+  const toImagePoint = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const width = size?.width ?? 1;
+    const height = size?.height ?? 1;
+    return {
+      x: Math.min(Math.max(0, ((event.clientX - rect.left) / rect.width) * width), width),
+      y: Math.min(Math.max(0, ((event.clientY - rect.top) / rect.height) * height), height),
+    };
+  };
+
+  /**
+   * The rectangle spanned from the drag origin to the pointer, held to the aspect ratio by
+   * shortening whichever side is too long.
+   */
+  const spanRect = (originX: number, originY: number, x: number, y: number): CropRect => {
+    let width = Math.abs(x - originX);
+    let height = Math.abs(y - originY);
+    if (aspectRatio) {
+      if (width / aspectRatio > height) {
+        width = height * aspectRatio;
+      } else {
+        height = width / aspectRatio;
+      }
+    }
+    return {
+      x: x < originX ? originX - width : originX,
+      y: y < originY ? originY - height : originY,
+      width,
+      height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!size) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = toImagePoint(event);
+    if (crop && x >= crop.x && x <= crop.x + crop.width && y >= crop.y && y <= crop.y + crop.height) {
+      dragRef.current = { mode: 'move', offsetX: x - crop.x, offsetY: y - crop.y };
+    } else {
+      dragRef.current = { mode: 'draw', originX: x, originY: y };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !size) {
+      return;
+    }
+    const { x, y } = toImagePoint(event);
+    if (drag.mode === 'draw') {
+      const next = spanRect(drag.originX, drag.originY, x, y);
+      if (next.width >= MIN_CROP_SIZE && next.height >= MIN_CROP_SIZE) {
+        setCrop(next);
+      }
+    } else if (crop) {
+      setCrop({
+        ...crop,
+        x: Math.min(Math.max(0, x - drag.offsetX), size.width - crop.width),
+        y: Math.min(Math.max(0, y - drag.offsetY), size.height - crop.height),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  /** Applies an aspect ratio to the current crop, keeping its centre and width where possible. */
+  const handleAspectRatioChange = (value: number | null) => {
+    setAspectRatio(value);
+    if (!value || !crop || !size) {
+      return;
+    }
+    const width = Math.min(crop.width, size.height * value, size.width);
+    const height = width / value;
+    const centreX = crop.x + crop.width / 2;
+    const centreY = crop.y + crop.height / 2;
+    setCrop({
+      x: Math.min(Math.max(0, centreX - width / 2), size.width - width),
+      y: Math.min(Math.max(0, centreY - height / 2), size.height - height),
+      width,
+      height,
+    });
+  };
+
+  const handleApply = () => {
+    onApply(crop && size ? clampCrop(crop, size.width, size.height) : null);
+  };
+
+  const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" role="dialog" aria-modal="true">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-full overflow-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-gray-800">Crop: {file.name}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 text-2xl leading-none" aria-label="Close crop">
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+          <div className="flex rounded-md overflow-hidden border border-gray-300">
+            {ASPECT_RATIOS.map(({ label, value }) => (
+              <button
+                key={label}
+                onClick={() => handleAspectRatioChange(value)}
+                className={`px-3 py-1 ${aspectRatio === value ? 'bg-gray-800 text-white' : 'bg-white text-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setCrop(null)}
+            disabled={!crop}
+            className="px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Whole Image
+          </button>
+          {size && (
+            <span className="text-gray-500">
+              {crop ? `${Math.round(crop.width)} × ${Math.round(crop.height)}` : `${size.width} × ${size.height}`} px
+            </span>
+          )}
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-700">{error}</p>}
+
+        <div
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="relative w-full bg-gray-50 border border-gray-200 rounded-lg overflow-hidden cursor-crosshair touch-none select-none"
+        >
+          <canvas ref={canvasRef} className="block w-full h-auto" aria-label="Image to crop" />
+          {crop && size && (
+            <div
+              className="absolute border-2 border-white cursor-move"
+              style={{
+                left: toPercent(crop.x, size.width),
+                top: toPercent(crop.y, size.height),
+                width: toPercent(crop.width, size.width),
+                height: toPercent(crop.height, size.height),
+                // Dims everything outside the crop.
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+              }}
+            />
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Drag to frame the subject, and drag the frame to move it. The crop is cut from the full-resolution upload.
+        </p>
+
+        <div className="mt-4 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-100 text-gray-800 font-medium rounded-md hover:bg-gray-200">
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!size}
+            className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply Crop
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CropModal;
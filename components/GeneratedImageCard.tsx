@@ -1,36 +1,357 @@
-
-import React from 'react';
-import { GeneratedImage } from '../types';
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage, StepStatus } from '../types';
+import { ChromaKeyOptions, ChromaKeyResult, chromaKeyImage } from '../services/chromaKey';
+import { VALIDATION_CHECK_LABELS } from '../services/validation';
+import { PriceTable, estimateCost, formatCost } from '../services/usage';
+import { createProvenance, hashSourceDataUrl, imageBlobWithProvenance } from '../services/provenance';
+import MaskEditorModal from './MaskEditorModal';
+import { detectDataUrlMimeType, downloadUrl, extensionForMimeType, toFileSlug } from '../utils/fileUtils';
 
 interface GeneratedImageCardProps {
+  /** The preferred version of the step's output. */
   image: GeneratedImage;
+  /** Every version of the step's output, oldest first. */
+  versions: GeneratedImage[];
+  chromaKeyOptions: ChromaKeyOptions;
+  /** Data URL of the run's source image, whose hash downloads record as provenance. */
+  sourceDataUrl: string;
+  /** Prices used to estimate what each version cost. */
+  prices: PriceTable;
+  status?: StepStatus;
+  /** Progress or failure details of the latest regenerate, refine or region edit. */
+  message?: string;
+  /** The image chained off an input version that is no longer preferred. */
+  isStale?: boolean;
+  /** Disables regenerating and refining, e.g. while a run is in progress. */
+  disabled?: boolean;
+  /** Generates a new version from the step's input, with an edited prompt if one is given. */
+  onRegenerate: (prompt?: string) => void;
+  /** Generates a new version by applying a follow-up instruction to the given version. */
+  onRefine: (version: GeneratedImage, instruction: string) => void;
+  /** Generates a new version by repainting the masked region of the given version. */
+  onInpaint: (version: GeneratedImage, maskSrc: string, instruction: string) => void;
+  onSelectVersion: (version: GeneratedImage) => void;
 }
 
-const GeneratedImageCard: React.FC<GeneratedImageCardProps> = ({ image }) => {
-  const handleDownload = () => {
-    const link = document.createElement('a');
-    link.href = image.src;
-    link.download = `${image.name.replace(/\s+/g, '_').toLowerCase()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+type RefineMode = 'prompt' | 'followUp';
+
+// Checkerboard so transparent areas of the keyed result are visible.
+const TRANSPARENCY_GRID_STYLE: React.CSSProperties = {
+  backgroundImage:
+    'linear-gradient(45deg, #e5e7eb 25%, transparent 25%), linear-gradient(-45deg, #e5e7eb 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #e5e7eb 75%), linear-gradient(-45deg, transparent 75%, #e5e7eb 75%)',
+  backgroundSize: '16px 16px',
+  backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0',
+};
+
+const GeneratedImageCard: React.FC<GeneratedImageCardProps> = ({
+  image,
+  versions,
+  chromaKeyOptions,
+  sourceDataUrl,
+  prices,
+  status,
+  message,
+  isStale = false,
+  disabled = false,
+  onRegenerate,
+  onRefine,
+  onInpaint,
+  onSelectVersion,
+}) => {
+  const [showKeyed, setShowKeyed] = useState<boolean>(false);
+  const [keyed, setKeyed] = useState<ChromaKeyResult | null>(null);
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [viewedId, setViewedId] = useState<string | null>(null); // null shows the preferred version
+  const [refineMode, setRefineMode] = useState<RefineMode | null>(null);
+  const [refineText, setRefineText] = useState<string>('');
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState<boolean>(false);
+  const viewed = versions.find((version) => version.id === viewedId) ?? image;
+  const viewedIndex = versions.findIndex((version) => version.id === viewed.id);
+
+  // Jump back to the preferred version whenever it changes, e.g. after a new version is generated.
+  useEffect(() => {
+    setViewedId(null);
+  }, [image.id]);
+
+  // The keyed result is only computed while it is on screen, and recomputed when the settings change.
+  useEffect(() => {
+    if (!showKeyed) {
+      return;
+    }
+    // Drop the previous result so another version's cut-out is never shown or downloaded as this one.
+    setKeyed(null);
+    setKeyError(null);
+    let isCurrent = true;
+    chromaKeyImage(viewed, chromaKeyOptions)
+      .then((result) => {
+        if (isCurrent) {
+          setKeyed(result);
+          setKeyError(null);
+        }
+      })
+      .catch((err) => {
+        if (isCurrent) {
+          setKeyError(err instanceof Error ? err.message : String(err));
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [viewed, chromaKeyOptions, showKeyed]);
+
+  const versionSuffix = versions.length > 1 ? `_v${viewedIndex + 1}` : '';
+
+  // Downloads carry the prompt, model and source hash that produced them, so they stay traceable.
+  const downloadWithProvenance = async (src: string, filename: string) => {
+    const provenance = createProvenance(viewed, await hashSourceDataUrl(sourceDataUrl));
+    const url = URL.createObjectURL(imageBlobWithProvenance(src, provenance));
+    downloadUrl(url, filename);
+    URL.revokeObjectURL(url);
   };
 
+  const handleDownload = async () => {
+    try {
+      await downloadWithProvenance(
+        viewed.src,
+        `${toFileSlug(viewed.name)}${versionSuffix}.${extensionForMimeType(detectDataUrlMimeType(viewed.src))}`,
+      );
+    } catch (err) {
+      setKeyError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDownloadTransparent = async () => {
+    try {
+      const result = await chromaKeyImage(viewed, chromaKeyOptions);
+      await downloadWithProvenance(result.src, `${toFileSlug(viewed.name)}${versionSuffix}_transparent.png`);
+    } catch (err) {
+      setKeyError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const openRefine = (mode: RefineMode) => {
+    setRefineMode(mode);
+    setRefineText(mode === 'prompt' ? viewed.prompt : '');
+  };
+
+  const submitRefine = () => {
+    const text = refineText.trim();
+    if (!text) {
+      return;
+    }
+    if (refineMode === 'prompt') {
+      onRegenerate(text);
+    } else {
+      onRefine(viewed, text);
+    }
+    setRefineMode(null);
+  };
+
+  const isBusy = disabled || status === 'running' || status === 'queued';
+
   return (
-    <div className="bg-white rounded-lg shadow-md overflow-hidden border border-gray-200">
-      <div className="w-full h-48 bg-gray-50 flex items-center justify-center p-2">
-        <img src={image.src} alt={image.name} className="max-w-full max-h-full object-contain" />
+    <div className={`bg-white rounded-lg shadow-md overflow-hidden border ${isStale ? 'border-yellow-400' : 'border-gray-200'}`}>
+      <div
+        className="relative w-full h-48 bg-gray-50 flex items-center justify-center p-2"
+        style={showKeyed ? TRANSPARENCY_GRID_STYLE : undefined}
+      >
+        {showKeyed && keyed ? (
+          <img src={keyed.src} alt={`${viewed.name} (transparent)`} className="max-w-full max-h-full object-contain" />
+        ) : (
+          <img src={viewed.src} alt={viewed.name} className="max-w-full max-h-full object-contain" />
+        )}
+        {viewed.cached && (
+          <span
+            className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-sky-100 text-sky-800 text-xs font-semibold"
+            title="Served from the result cache; this request was not sent to the provider again."
+          >
+            Cached
+          </span>
+        )}
+        {status === 'running' && (
+          <div className="absolute inset-0 bg-white/70 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-600 border-t-transparent"></div>
+          </div>
+        )}
       </div>
       <div className="p-4">
         <h3 className="font-semibold text-lg text-gray-800 mb-2">{image.name}</h3>
         <p className="text-sm text-gray-600 mb-4">{image.description}</p>
-        <button
-          onClick={handleDownload}
-          className="w-full px-4 py-2 bg-indigo-500 text-white font-medium rounded-md hover:bg-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200 text-sm"
-        >
-          Download
-        </button>
+        <details className="mb-3 px-3 py-1 rounded-md bg-gray-50 text-xs text-gray-700">
+          <summary className="cursor-pointer font-semibold">Prompt sent</summary>
+          <p className="mt-1 whitespace-pre-wrap break-words">{viewed.prompt}</p>
+        </details>
+        {viewed.usage && viewed.usage.calls > 0 && (
+          <p className="mb-3 text-xs text-gray-500">
+            {viewed.usage.calls} call{viewed.usage.calls === 1 ? '' : 's'} · {viewed.usage.totalTokens.toLocaleString()} tokens ·
+            ~{formatCost(estimateCost(viewed.usage, viewed.model, prices))}
+          </p>
+        )}
+        {viewed.validation && (
+          <details
+            className={`mb-3 px-3 py-1 rounded-md text-xs ${viewed.validation.passed ? 'bg-green-50 text-green-700' : 'bg-orange-50 text-orange-800'}`}
+          >
+            <summary className="cursor-pointer font-semibold">
+              {viewed.validation.passed
+                ? 'Quality checks passed'
+                : `Failed: ${viewed.validation.checks
+                    .filter((check) => !check.passed)
+                    .map((check) => VALIDATION_CHECK_LABELS[check.check])
+                    .join(', ')}`}
+              {viewed.validation.attempts > 1 && ` (${viewed.validation.attempts} attempts)`}
+            </summary>
+            <ul className="mt-1 space-y-1">
+              {viewed.validation.checks.map((check) => (
+                <li key={check.check}>
+                  {check.passed ? '✓' : '✗'} {VALIDATION_CHECK_LABELS[check.check]}: {check.message}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+        {isStale && (
+          <p className="mb-3 px-3 py-1 rounded-md bg-yellow-100 text-yellow-800 text-xs font-semibold">
+            Stale: its input or reference images have changed since it was made
+          </p>
+        )}
+        {versions.length > 1 && (
+          <div className="flex items-center justify-between mb-3 text-sm text-gray-700">
+            <button
+              onClick={() => setViewedId(versions[viewedIndex - 1]?.id ?? null)}
+              disabled={viewedIndex <= 0}
+              className="px-2 py-1 rounded-md hover:bg-gray-100 disabled:opacity-30"
+              aria-label="Previous version"
+            >
+              ‹
+            </button>
+            <span>
+              Version {viewedIndex + 1} of {versions.length}
+              {viewed.maskSrc ? ' (region edit)' : viewed.refinedFromId && ' (refined)'}
+            </span>
+            <button
+              onClick={() => setViewedId(versions[viewedIndex + 1]?.id ?? null)}
+              disabled={viewedIndex >= versions.length - 1}
+              className="px-2 py-1 rounded-md hover:bg-gray-100 disabled:opacity-30"
+              aria-label="Next version"
+            >
+              ›
+            </button>
+          </div>
+        )}
+        {versions.length > 1 &&
+          (viewed.id === image.id ? (
+            <p className="mb-3 text-center text-xs font-semibold text-green-700">★ Preferred version</p>
+          ) : (
+            <button
+              onClick={() => onSelectVersion(viewed)}
+              disabled={isBusy}
+              className="mb-3 w-full px-3 py-1 bg-green-50 text-green-700 text-sm font-medium rounded-md hover:bg-green-100 disabled:opacity-50"
+            >
+              Mark as preferred
+            </button>
+          ))}
+        <div className="flex rounded-md overflow-hidden border border-gray-300 mb-3 text-sm">
+          <button
+            onClick={() => setShowKeyed(false)}
+            className={`flex-1 px-3 py-1 ${showKeyed ? 'bg-white text-gray-700' : 'bg-gray-800 text-white'}`}
+          >
+            Original
+          </button>
+          <button
+            onClick={() => setShowKeyed(true)}
+            className={`flex-1 px-3 py-1 ${showKeyed ? 'bg-gray-800 text-white' : 'bg-white text-gray-700'}`}
+          >
+            Transparent
+          </button>
+        </div>
+        {keyError && <p className="text-xs text-red-700 mb-3">{keyError}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={handleDownload}
+            className="flex-1 px-4 py-2 bg-indigo-500 text-white font-medium rounded-md hover:bg-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200 text-sm"
+          >
+            Download
+          </button>
+          <button
+            onClick={handleDownloadTransparent}
+            className="flex-1 px-4 py-2 bg-gray-700 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors duration-200 text-sm"
+          >
+            Transparent PNG
+          </button>
+        </div>
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => onRegenerate()}
+            disabled={isBusy}
+            className="flex-1 px-4 py-2 bg-gray-100 text-gray-800 font-medium rounded-md hover:bg-gray-200 transition-colors duration-200 text-sm disabled:opacity-50"
+          >
+            Regenerate
+          </button>
+          <button
+            onClick={() => (refineMode ? setRefineMode(null) : openRefine('prompt'))}
+            disabled={isBusy}
+            className="flex-1 px-4 py-2 bg-gray-100 text-gray-800 font-medium rounded-md hover:bg-gray-200 transition-colors duration-200 text-sm disabled:opacity-50"
+          >
+            Refine
+          </button>
+          <button
+            onClick={() => setIsMaskEditorOpen(true)}
+            disabled={isBusy}
+            className="flex-1 px-4 py-2 bg-gray-100 text-gray-800 font-medium rounded-md hover:bg-gray-200 transition-colors duration-200 text-sm disabled:opacity-50"
+          >
+            Edit Region
+          </button>
+        </div>
+        {message && <p className="mt-2 text-xs text-gray-600 break-words">{message}</p>}
+        {refineMode && (
+          <div className="mt-3 text-sm">
+            <div className="flex rounded-md overflow-hidden border border-gray-300 mb-2">
+              <button
+                onClick={() => openRefine('prompt')}
+                className={`flex-1 px-3 py-1 ${refineMode === 'prompt' ? 'bg-gray-800 text-white' : 'bg-white text-gray-700'}`}
+              >
+                Edit prompt
+              </button>
+              <button
+                onClick={() => openRefine('followUp')}
+                className={`flex-1 px-3 py-1 ${refineMode === 'followUp' ? 'bg-gray-800 text-white' : 'bg-white text-gray-700'}`}
+              >
+                Follow-up
+              </button>
+            </div>
+            <textarea
+              value={refineText}
+              onChange={(e) => setRefineText(e.target.value)}
+              rows={4}
+              placeholder={refineMode === 'followUp' ? 'e.g. Remove the extra arm on the left.' : undefined}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-xs"
+              aria-label={refineMode === 'prompt' ? 'Step prompt' : 'Follow-up instruction'}
+            />
+            <p className="text-xs text-gray-500 mb-2">
+              {refineMode === 'prompt'
+                ? 'Runs the step again on its input with this prompt.'
+                : `Applies the instruction to version ${viewedIndex + 1}.`}
+            </p>
+            <button
+              onClick={submitRefine}
+              disabled={isBusy || !refineText.trim()}
+              className="w-full px-4 py-2 bg-indigo-500 text-white font-medium rounded-md hover:bg-indigo-600 disabled:opacity-50"
+            >
+              Generate new version
+            </button>
+          </div>
+        )}
       </div>
+      {isMaskEditorOpen && (
+        <MaskEditorModal
+          image={viewed}
+          onClose={() => setIsMaskEditorOpen(false)}
+          onSubmit={(maskSrc, instruction) => {
+            setIsMaskEditorOpen(false);
+            onInpaint(viewed, maskSrc, instruction);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+import { STORAGE_WARNING_RATIO, StorageEstimate } from '../services/projectStore';
+
+interface HistorySidebarProps {
+  projects: ProjectSummary[];
+  /** Projects currently open in the batch queue; these cannot be deleted. */
+  openProjectIds: string[];
+  storageEstimate: StorageEstimate | null;
+  disabled: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onPrune: () => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  projects,
+  openProjectIds,
+  storageEstimate,
+  disabled,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onPrune,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+  const usageRatio = storageEstimate ? storageEstimate.usage / storageEstimate.quota : 0;
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-40 w-80 max-w-full bg-white shadow-2xl border-r border-gray-200 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <h2 className="text-xl font-bold text-gray-800">Project History</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800 text-2xl leading-none" aria-label="Close history">
+          ×
+        </button>
+      </div>
+
+      {storageEstimate && (
+        <div className={`p-4 text-sm border-b ${usageRatio >= STORAGE_WARNING_RATIO ? 'bg-yellow-50 border-yellow-200' : 'border-gray-200'}`}>
+          <div className="flex justify-between text-gray-700 mb-1">
+            <span>Storage</span>
+            <span>
+              {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${usageRatio >= STORAGE_WARNING_RATIO ? 'bg-yellow-500' : 'bg-indigo-500'}`}
+              style={{ width: `${Math.min(100, usageRatio * 100)}%` }}
+            />
+          </div>
+          {usageRatio >= STORAGE_WARNING_RATIO && (
+            <div className="mt-2 text-yellow-800">
+              Storage is nearly full; new runs may fail to save.
+              <button
+                onClick={onPrune}
+                disabled={disabled}
+                className="mt-2 block w-full px-3 py-1 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 disabled:opacity-50"
+              >
+                Prune oldest projects
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+        {projects.length === 0 && <li className="p-4 text-sm text-gray-500">No saved projects yet. Runs are saved automatically.</li>}
+        {projects.map((project) => (
+          <li key={project.id} className={`p-4 ${openProjectIds.includes(project.id) ? 'bg-indigo-50' : ''}`}>
+            {editingId === project.id ? (
+              <input
+                type="text"
+                value={draftName}
+                autoFocus
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                aria-label="Project name"
+              />
+            ) : (
+              <h3 className="font-semibold text-gray-800 truncate" title={project.name}>
+                {project.name}
+              </h3>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              {project.imageCount}/{project.stepCount} images · {new Date(project.updatedAt).toLocaleString()}
+            </p>
+            <div className="mt-2 flex flex-wrap gap-2 text-xs">
+              <button
+                onClick={() => onOpen(project.id)}
+                disabled={disabled}
+                className="px-2 py-1 bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:opacity-50"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => startRename(project)}
+                disabled={disabled}
+                className="px-2 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 disabled:opacity-50"
+              >
+                Rename
+              </button>
+              <button
+                onClick={() => onDuplicate(project.id)}
+                disabled={disabled}
+                className="px-2 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 disabled:opacity-50"
+              >
+                Duplicate
+              </button>
+              <button
+                onClick={() => handleDelete(project)}
+                disabled={disabled || openProjectIds.includes(project.id)}
+                className="px-2 py-1 bg-red-50 text-red-700 rounded-md hover:bg-red-100 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default HistorySidebar;
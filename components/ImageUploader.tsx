@@ -1,25 +1,35 @@
 
 import React, { useRef } from 'react';
+import { MAX_UPLOAD_BYTES } from '../services/preprocess';
 
 interface ImageUploaderProps {
-  onImageSelected: (file: File) => void;
+  onImagesSelected: (files: File[]) => void;
   previewUrl: string | null;
+  /** Number of images already queued, shown under the preview. */
+  queuedCount: number;
   isLoading: boolean;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, previewUrl, isLoading }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesSelected, previewUrl, queuedCount, isLoading }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      onImageSelected(event.target.files[0]);
+  // Files are checked by their contents once selected, so unsupported ones are reported rather than dropped.
+  const selectImages = (files: FileList | null) => {
+    const selected = Array.from(files ?? []);
+    if (selected.length > 0) {
+      onImagesSelected(selected);
     }
   };
 
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    selectImages(event.target.files);
+    event.target.value = ''; // Allow selecting the same files again
+  };
+
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
-    if (event.dataTransfer.files && event.dataTransfer.files[0]) {
-      onImageSelected(event.dataTransfer.files[0]);
+    if (!isLoading) {
+      selectImages(event.dataTransfer.files);
     }
   };
 
@@ -29,7 +39,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, previewU
 
   return (
     <div className="w-full max-w-lg mx-auto bg-white rounded-lg shadow-md p-6 border border-gray-200">
-      <h2 className="text-2xl font-semibold text-gray-800 mb-4 text-center">Upload Your Image</h2>
+      <h2 className="text-2xl font-semibold text-gray-800 mb-4 text-center">Upload Your Images</h2>
       <div
         className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:border-indigo-500 transition-colors duration-200"
         onClick={() => fileInputRef.current?.click()}
@@ -38,7 +48,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, previewU
       >
         <input
           type="file"
-          accept="image/*"
+          accept="image/png,image/jpeg,image/gif,image/webp"
+          multiple
           onChange={handleFileChange}
           ref={fileInputRef}
           className="hidden"
@@ -47,6 +58,11 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, previewU
         {previewUrl ? (
           <div className="relative w-full h-48 sm:h-64 flex items-center justify-center overflow-hidden rounded-md mb-4">
             <img src={previewUrl} alt="Preview" className="max-h-full max-w-full object-contain" />
+            {queuedCount > 1 && (
+              <span className="absolute bottom-2 right-2 px-2 py-1 bg-indigo-600 text-white text-xs font-semibold rounded-full">
+                {queuedCount} images queued
+              </span>
+            )}
           </div>
         ) : (
           <div className="text-gray-500 text-sm">
@@ -64,8 +80,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, previewU
                 strokeLinejoin="round"
               />
             </svg>
-            <p className="mt-2">Drag and drop an image here, or click to select a file</p>
-            <p className="text-xs text-gray-400">PNG, JPG, GIF up to 10MB</p>
+            <p className="mt-2">Drag and drop images here, or click to select files</p>
+            <p className="text-xs text-gray-400">PNG, JPG, GIF or WebP up to {MAX_UPLOAD_BYTES / 1024 / 1024}MB</p>
           </div>
         )}
       </div>
@@ -74,7 +90,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, previewU
         className="mt-4 w-full px-4 py-2 bg-indigo-600 text-white font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200"
         disabled={isLoading}
       >
-        {previewUrl ? 'Change Image' : 'Select Image'}
+        {previewUrl ? 'Add Images' : 'Select Images'}
       </button>
     </div>
   );
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { createCanvas } from '../utils/imageUtils';
+
+interface MaskEditorModalProps {
+  image: GeneratedImage;
+  /** Called with the mask as a black-and-white PNG data URL and the edit instruction. */
+  onSubmit: (maskSrc: string, instruction: string) => void;
+  onClose: () => void;
+}
+
+type Tool = 'brush' | 'eraser';
+
+/** Colour the mask is painted with on screen; only its alpha matters for the exported mask. */
+const MASK_PAINT = 'rgba(236, 72, 153, 1)';
+const MAX_UNDO_STEPS = 30;
+
+const MaskEditorModal: React.FC<MaskEditorModalProps> = ({ image, onSubmit, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [undoStack, setUndoStack] = useState<ImageData[]>([]);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [instruction, setInstruction] = useState<string>('');
+  const [hasMask, setHasMask] = useState<boolean>(false);
+
+  // Size the mask canvas to the image's real resolution so the mask lines up pixel for pixel.
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (canvas) {
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+      }
+    };
+    img.src = image.src;
+  }, [image.src]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const getContext = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) ?? null;
+
+  /** Converts a pointer position to canvas pixels, since the canvas is displayed scaled. */
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const paintTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = getContext();
+    if (!context) {
+      return;
+    }
+    const { x, y, scale } = toCanvasPoint(event);
+    const from = lastPointRef.current ?? { x, y };
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = MASK_PAINT;
+    context.lineWidth = brushSize * scale;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(x, y);
+    context.stroke();
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = getContext();
+    if (!context) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const snapshot = context.getImageData(0, 0, context.canvas.width, context.canvas.height);
+    setUndoStack((prev) => [...prev.slice(-(MAX_UNDO_STEPS - 1)), snapshot]);
+    lastPointRef.current = null;
+    paintTo(event);
+    setHasMask(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      paintTo(event);
+    }
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleUndo = () => {
+    const context = getContext();
+    const snapshot = undoStack[undoStack.length - 1];
+    if (context && snapshot) {
+      context.putImageData(snapshot, 0, 0);
+      setUndoStack((prev) => prev.slice(0, -1));
+    }
+  };
+
+  const handleClear = () => {
+    const context = getContext();
+    if (context) {
+      setUndoStack((prev) => [...prev, context.getImageData(0, 0, context.canvas.width, context.canvas.height)]);
+      context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+    }
+  };
+
+  /** Turns the painted overlay into a greyscale mask: painted pixels white, the rest black. */
+  const exportMask = (): string => {
+    const painted = canvasRef.current!;
+    const overlay = painted.getContext('2d')!.getImageData(0, 0, painted.width, painted.height);
+    const { canvas, context } = createCanvas(painted.width, painted.height);
+    const mask = context.createImageData(painted.width, painted.height);
+    for (let i = 0; i < overlay.data.length; i += 4) {
+      const value = overlay.data[i + 3];
+      mask.data[i] = value;
+      mask.data[i + 1] = value;
+      mask.data[i + 2] = value;
+      mask.data[i + 3] = 255;
+    }
+    context.putImageData(mask, 0, 0);
+    return canvas.toDataURL('image/png');
+  };
+
+  const handleSubmit = () => {
+    if (hasMask && instruction.trim()) {
+      onSubmit(exportMask(), instruction.trim());
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" role="dialog" aria-modal="true">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-full overflow-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-gray-800">Edit Region: {image.name}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 text-2xl leading-none" aria-label="Close editor">
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+          <div className="flex rounded-md overflow-hidden border border-gray-300">
+            {(['brush', 'eraser'] as Tool[]).map((candidate) => (
+              <button
+                key={candidate}
+                onClick={() => setTool(candidate)}
+                className={`px-4 py-1 ${tool === candidate ? 'bg-gray-800 text-white' : 'bg-white text-gray-700'}`}
+              >
+                {candidate === 'brush' ? 'Brush' : 'Eraser'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            Size
+            <input type="range" min={4} max={160} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+            <span className="w-8 text-right">{brushSize}</span>
+          </label>
+          <button
+            onClick={handleUndo}
+            disabled={undoStack.length === 0}
+            className="px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Undo
+          </button>
+          <button onClick={handleClear} className="px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200">
+            Clear
+          </button>
+        </div>
+
+        <div className="relative w-full bg-gray-50 border border-gray-200 rounded-lg overflow-hidden">
+          <img src={image.src} alt={image.name} className="block w-full h-auto select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+          />
+        </div>
+
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          rows={2}
+          placeholder="What should change in the painted area? e.g. Replace the sword with an empty open hand."
+          className="mt-4 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          aria-label="Edit instruction"
+        />
+        <p className="text-xs text-gray-500 mt-1">Only the painted area is replaced; every other pixel stays as it is.</p>
+
+        <div className="mt-4 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-100 text-gray-800 font-medium rounded-md hover:bg-gray-200">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!hasMask || !instruction.trim()}
+            className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply Edit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditorModal;
@@ -0,0 +1,289 @@
+import React, { useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Pipeline, PipelineStep } from '../types';
+import { REFERENCE_LABELS, SOURCE_INPUT_ID } from '../constants';
+import { downloadUrl, toFileSlug } from '../utils/fileUtils';
+import { parsePipelineJson, serializePipeline, validatePipeline } from '../services/pipelineService';
+import { PIPELINE_PRESETS } from '../presets';
+import StepValidationEditor from './StepValidationEditor';
+import TemplateVariablesEditor from './TemplateVariablesEditor';
+
+interface PipelineEditorProps {
+  pipeline: Pipeline;
+  onChange: (pipeline: Pipeline) => void;
+  onReset: () => void;
+  disabled: boolean;
+}
+
+const PipelineEditor: React.FC<PipelineEditorProps> = ({ pipeline, onChange, onReset, disabled }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const problems = validatePipeline(pipeline);
+  // Suggested labels plus any custom ones the steps already use.
+  const referenceLabels = Array.from(
+    new Set([...REFERENCE_LABELS, ...pipeline.steps.flatMap((step) => step.references ?? [])]),
+  );
+  const colorVariables = (pipeline.variables ?? [])
+    .filter((variable) => variable.type === 'color')
+    .map((variable) => variable.name);
+
+  const updateStep = (stepId: string, changes: Partial<PipelineStep>) => {
+    onChange({
+      ...pipeline,
+      steps: pipeline.steps.map((step) => (step.id === stepId ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const toggleReference = (step: PipelineStep, label: string, included: boolean) => {
+    const references = (step.references ?? []).filter((candidate) => candidate !== label);
+    updateStep(step.id, { references: included ? [...references, label] : references });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pipeline.steps.length) {
+      return;
+    }
+    const steps = [...pipeline.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    onChange({ ...pipeline, steps });
+  };
+
+  const removeStep = (removed: PipelineStep) => {
+    // Steps that consumed the removed step's output inherit its input instead of dangling.
+    onChange({
+      ...pipeline,
+      steps: pipeline.steps
+        .filter((step) => step.id !== removed.id)
+        .map((step) => (step.input === removed.id ? { ...step, input: removed.input } : step)),
+    });
+  };
+
+  const addStep = () => {
+    const lastStep = pipeline.steps[pipeline.steps.length - 1];
+    onChange({
+      ...pipeline,
+      steps: [
+        ...pipeline.steps,
+        {
+          id: `step-${uuidv4().slice(0, 8)}`,
+          name: 'New Step',
+          description: '',
+          prompt: '',
+          input: lastStep ? lastStep.id : SOURCE_INPUT_ID,
+        },
+      ],
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePipeline(pipeline)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, `${toFileSlug(pipeline.name) || 'pipeline'}.json`);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file twice in a row
+    if (!file) {
+      return;
+    }
+    try {
+      onChange(parsePipelineJson(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(`Failed to import pipeline: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <details className="mb-10 p-6 bg-white rounded-xl shadow-lg border border-gray-200">
+      <summary className="text-2xl font-semibold text-gray-800 cursor-pointer">
+        Pipeline: {pipeline.name} <span className="text-base font-normal text-gray-500">({pipeline.steps.length} steps)</span>
+      </summary>
+
+      <fieldset disabled={disabled} className="mt-4 space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            value={pipeline.name}
+            onChange={(e) => onChange({ ...pipeline, name: e.target.value })}
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md"
+            aria-label="Pipeline name"
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-4 py-2 bg-gray-100 text-gray-800 font-medium rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Import JSON
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-gray-100 text-gray-800 font-medium rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={onReset}
+            className="px-4 py-2 bg-gray-100 text-gray-800 font-medium rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Reset to Default
+          </button>
+          <select
+            value=""
+            onChange={(e) => {
+              const preset = PIPELINE_PRESETS.find((candidate) => candidate.id === e.target.value);
+              if (preset) {
+                onChange(preset);
+                setImportError(null);
+              }
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md bg-white"
+            aria-label="Load a preset pipeline"
+          >
+            <option value="">Load preset…</option>
+            {PIPELINE_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id} title={preset.description}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            ref={importInputRef}
+            className="hidden"
+          />
+        </div>
+
+        {importError && <p className="text-sm text-red-700">{importError}</p>}
+        {problems.length > 0 && (
+          <ul className="text-sm text-red-700 list-disc list-inside">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+
+        <TemplateVariablesEditor
+          variables={pipeline.variables ?? []}
+          onChange={(variables) => onChange({ ...pipeline, variables })}
+        />
+
+        <ol className="space-y-4">
+          {pipeline.steps.map((step, index) => (
+            <li key={step.id} className="p-4 border border-gray-200 rounded-lg bg-gray-50">
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <span className="font-mono text-xs text-gray-500">{step.id}</span>
+                <input
+                  type="text"
+                  value={step.name}
+                  onChange={(e) => updateStep(step.id, { name: e.target.value })}
+                  className="flex-1 min-w-[10rem] px-2 py-1 border border-gray-300 rounded-md font-semibold"
+                  aria-label="Step name"
+                />
+                <button
+                  onClick={() => moveStep(index, -1)}
+                  disabled={index === 0}
+                  className="px-2 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                  aria-label="Move step up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveStep(index, 1)}
+                  disabled={index === pipeline.steps.length - 1}
+                  className="px-2 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                  aria-label="Move step down"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => removeStep(step)}
+                  className="px-2 py-1 text-sm bg-red-50 text-red-700 border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+              <label className="block text-sm text-gray-700 mb-2">
+                Input
+                <select
+                  value={step.input}
+                  onChange={(e) => updateStep(step.id, { input: e.target.value })}
+                  className="ml-2 px-2 py-1 border border-gray-300 rounded-md"
+                >
+                  <option value={SOURCE_INPUT_ID}>Original upload</option>
+                  {pipeline.steps
+                    .filter((candidate) => candidate.id !== step.id)
+                    .map((candidate) => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {candidate.name || candidate.id}
+                      </option>
+                    ))}
+                </select>
+              </label>
+              <input
+                type="text"
+                value={step.description}
+                onChange={(e) => updateStep(step.id, { description: e.target.value })}
+                placeholder="Description"
+                className="w-full mb-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                aria-label="Step description"
+              />
+              <textarea
+                value={step.prompt}
+                onChange={(e) => updateStep(step.id, { prompt: e.target.value })}
+                placeholder="Prompt sent to the model; {{name}} inserts a template variable"
+                rows={3}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                aria-label="Step prompt"
+              />
+              <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <span>References:</span>
+                {referenceLabels.map((label) => (
+                  <label key={label} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={step.references?.includes(label) ?? false}
+                      onChange={(e) => toggleReference(step, label, e.target.checked)}
+                    />
+                    {label}
+                  </label>
+                ))}
+                <input
+                  type="text"
+                  placeholder="Other label"
+                  onKeyDown={(e) => {
+                    const label = e.currentTarget.value.trim();
+                    if (e.key === 'Enter' && label) {
+                      toggleReference(step, label, true);
+                      e.currentTarget.value = '';
+                    }
+                  }}
+                  className="w-32 px-2 py-1 border border-gray-300 rounded-md"
+                  aria-label="Add a custom reference label"
+                />
+              </div>
+              <StepValidationEditor
+                validation={step.validation}
+                onChange={(validation) => updateStep(step.id, { validation })}
+                colorVariables={colorVariables}
+              />
+            </li>
+          ))}
+        </ol>
+
+        <button
+          onClick={addStep}
+          className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Add Step
+        </button>
+      </fieldset>
+    </details>
+  );
+};
+
+export default PipelineEditor;
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageProvenance, readProvenance } from '../services/provenance';
+
+interface ProvenanceInspectorProps {
+  /** Runs the recorded step again with its recorded prompt and model. */
+  onRerun: (provenance: ImageProvenance) => void;
+  disabled: boolean;
+}
+
+interface InspectedFile {
+  name: string;
+  previewUrl: string;
+  provenance: ImageProvenance | null;
+}
+
+const ProvenanceInspector: React.FC<ProvenanceInspectorProps> = ({ onRerun, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [inspected, setInspected] = useState<InspectedFile | null>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Release the preview's object URL when it is replaced or the panel unmounts.
+  useEffect(() => () => {
+    if (inspected) {
+      URL.revokeObjectURL(inspected.previewUrl);
+    }
+  }, [inspected]);
+
+  const inspectFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    try {
+      const provenance = readProvenance(new Uint8Array(await file.arrayBuffer()));
+      setInspected({ name: file.name, previewUrl: URL.createObjectURL(file), provenance });
+      setError(null);
+    } catch (err) {
+      setError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    inspectFile(event.dataTransfer.files[0]);
+  };
+
+  const provenance = inspected?.provenance;
+  const rows: [string, string | undefined][] = provenance
+    ? [
+        ['Step', `${provenance.stepName} (${provenance.stepId})`],
+        ['Parent step', provenance.parentStepId],
+        ['Provider / model', `${provenance.providerId} / ${provenance.model}`],
+        ['Generated', new Date(provenance.createdAt).toLocaleString()],
+        ['Source SHA-256', provenance.sourceSha256],
+      ]
+    : [];
+
+  return (
+    <details className="mb-10 p-6 bg-white rounded-xl shadow-lg border border-gray-200">
+      <summary className="text-2xl font-semibold text-gray-800 cursor-pointer">Inspect</summary>
+      <p className="mt-2 text-sm text-gray-600">
+        Drop an exported PNG or JPEG to see the step, prompt, model and source it was generated from.
+      </p>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`mt-4 p-6 border-2 border-dashed rounded-lg text-center text-sm cursor-pointer ${
+          isDragging ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+        }`}
+      >
+        Drop an image here or click to choose one
+        <input
+          type="file"
+          accept="image/png,image/jpeg"
+          onChange={(e) => {
+            inspectFile(e.target.files?.[0]);
+            e.target.value = ''; // Allow inspecting the same file again
+          }}
+          ref={fileInputRef}
+          className="hidden"
+        />
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+
+      {inspected && (
+        <div className="mt-4 flex flex-col sm:flex-row gap-4">
+          <img
+            src={inspected.previewUrl}
+            alt={inspected.name}
+            className="w-40 h-40 object-contain bg-gray-50 border border-gray-200 rounded-md"
+          />
+          <div className="flex-1 min-w-0 text-sm text-gray-700">
+            <p className="font-semibold text-gray-800 mb-2 break-all">{inspected.name}</p>
+            {provenance ? (
+              <>
+                <table>
+                  <tbody>
+                    {rows.map(([label, value]) => (
+                      <tr key={label}>
+                        <td className="pr-4 py-0.5 text-gray-500 align-top whitespace-nowrap">{label}</td>
+                        <td className="py-0.5 break-all">{value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-2 text-gray-500">Prompt</p>
+                <p className="mt-1 p-2 bg-gray-50 rounded-md text-xs whitespace-pre-wrap break-words">{provenance.prompt}</p>
+                <button
+                  onClick={() => onRerun(provenance)}
+                  disabled={disabled}
+                  className="mt-3 px-4 py-2 bg-indigo-600 text-white font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Re-run This Step
+                </button>
+                <p className="mt-1 text-xs text-gray-500">
+                  Runs the step again on the open source with the same SHA-256, using the recorded prompt and model.
+                </p>
+              </>
+            ) : (
+              <p>No provenance found. Only images exported by this app carry it.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default ProvenanceInspector;
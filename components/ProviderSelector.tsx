@@ -0,0 +1,55 @@
+import React from 'react';
+import { ProviderSettings } from '../types';
+import { IMAGE_PROVIDERS, getImageProvider } from '../services/imageProviders';
+
+interface ProviderSelectorProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled: boolean;
+}
+
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({ settings, onChange, disabled }) => {
+  const provider = getImageProvider(settings.providerId);
+
+  const handleProviderChange = (providerId: string) => {
+    // Switching provider resets the model, since model names are provider specific.
+    onChange({ providerId, model: getImageProvider(providerId).models[0] });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-700">
+      <label>
+        Provider
+        <select
+          value={settings.providerId}
+          onChange={(e) => handleProviderChange(e.target.value)}
+          disabled={disabled}
+          className="ml-2 px-2 py-1 border border-gray-300 rounded-md bg-white"
+        >
+          {IMAGE_PROVIDERS.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Model
+        <select
+          value={settings.model}
+          onChange={(e) => onChange({ ...settings, model: e.target.value })}
+          disabled={disabled}
+          className="ml-2 px-2 py-1 border border-gray-300 rounded-md bg-white"
+        >
+          {provider.models.map((model) => (
+            <option key={model} value={model}>
+              {model}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default ProviderSelector;
@@ -0,0 +1,120 @@
+import React, { useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { ReferenceImage } from '../types';
+import { REFERENCE_LABELS } from '../constants';
+import { UploadRejectedError, describeError } from '../services/errors';
+import { preprocessUpload } from '../services/preprocess';
+import { readFileAsDataUrl } from '../utils/fileUtils';
+
+interface ReferenceImagesPanelProps {
+  /** Name of the source image the references belong to. */
+  sourceName: string;
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  onError: (message: string) => void;
+  disabled: boolean;
+  /** Longest side references are scaled down to, like sources; null keeps their size. */
+  maxDimension: number | null;
+}
+
+const LABEL_OPTIONS_ID = 'reference-label-options';
+
+const ReferenceImagesPanel: React.FC<ReferenceImagesPanelProps> = ({
+  sourceName,
+  references,
+  onChange,
+  onError,
+  disabled,
+  maxDimension,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = ''; // Allow adding the same file again
+    // Suggest the first labels not used yet so a front/back/side set can be added in one go.
+    const freeLabels = REFERENCE_LABELS.filter((label) => !references.some((reference) => reference.label === label));
+    const added: ReferenceImage[] = [];
+    const problems: string[] = [];
+    // References go through the same checks and preparation as sources, one at a time.
+    for (const file of files) {
+      try {
+        const prepared = await preprocessUpload(file, { maxDimension });
+        added.push({ id: uuidv4(), label: freeLabels[added.length] ?? '', name: prepared.name, dataUrl: await readFileAsDataUrl(prepared) });
+      } catch (err) {
+        problems.push(err instanceof UploadRejectedError ? err.message : `Failed to prepare ${file.name}: ${describeError(err)}`);
+      }
+    }
+    if (added.length > 0) {
+      onChange([...references, ...added]);
+    }
+    if (problems.length > 0) {
+      onError(problems.join(' '));
+    }
+  };
+
+  const updateLabel = (id: string, label: string) => {
+    onChange(references.map((reference) => (reference.id === id ? { ...reference, label } : reference)));
+  };
+
+  return (
+    <div className="mt-6 text-left">
+      <h3 className="text-lg font-semibold text-gray-800">References for {sourceName}</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Extra photos of the subject or a style example. Each step sends the references whose labels it lists.
+      </p>
+      <datalist id={LABEL_OPTIONS_ID}>
+        {REFERENCE_LABELS.map((label) => (
+          <option key={label} value={label} />
+        ))}
+      </datalist>
+      <ul className="flex flex-wrap gap-4">
+        {references.map((reference) => (
+          <li key={reference.id} className="w-36 text-sm">
+            <img
+              src={reference.dataUrl}
+              alt={reference.label || reference.name}
+              className="w-36 h-36 object-cover rounded-md border border-gray-200"
+            />
+            <input
+              type="text"
+              list={LABEL_OPTIONS_ID}
+              value={reference.label}
+              onChange={(e) => updateLabel(reference.id, e.target.value)}
+              disabled={disabled}
+              placeholder="Label"
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+              aria-label={`Label for ${reference.name}`}
+            />
+            <button
+              onClick={() => onChange(references.filter((candidate) => candidate.id !== reference.id))}
+              disabled={disabled}
+              className="mt-1 w-full px-2 py-1 bg-red-50 text-red-700 rounded-md hover:bg-red-100 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+        <li>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="w-36 h-36 border-2 border-dashed border-gray-300 rounded-md text-gray-500 text-sm hover:border-indigo-500 disabled:opacity-50"
+          >
+            + Add References
+          </button>
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp"
+            multiple
+            onChange={handleFiles}
+            ref={fileInputRef}
+            className="hidden"
+          />
+        </li>
+      </ul>
+    </div>
+  );
+};
+
+export default ReferenceImagesPanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { PipelineStep, StepStatus } from '../types';
+
+interface StepPlaceholderCardProps {
+  step: PipelineStep;
+  status: StepStatus;
+  message?: string;
+  onRetry?: () => void;
+}
+
+const STATUS_STYLES: Record<StepStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-600' },
+  running: { label: 'Generating...', className: 'bg-indigo-100 text-indigo-700' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const StepPlaceholderCard: React.FC<StepPlaceholderCardProps> = ({ step, status, message, onRetry }) => {
+  const { label, className } = STATUS_STYLES[status];
+  const borderClass = status === 'failed' ? 'border-red-300' : 'border-dashed border-gray-300';
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md overflow-hidden border ${borderClass}`}>
+      <div className="w-full h-48 bg-gray-50 flex items-center justify-center p-2">
+        {status === 'running' ? (
+          <div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-600 border-t-transparent"></div>
+        ) : (
+          <span className="text-gray-400 text-sm">No image yet</span>
+        )}
+      </div>
+      <div className="p-4">
+        <h3 className="font-semibold text-lg text-gray-800 mb-2">{step.name}</h3>
+        <p className="text-sm text-gray-600 mb-4">{step.description}</p>
+        <span className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${className}`}>{label}</span>
+        {message && <p className="mt-2 text-xs text-gray-600 break-words">{message}</p>}
+        {onRetry && (status === 'failed' || status === 'cancelled') && (
+          <button
+            onClick={onRetry}
+            className="mt-4 w-full px-4 py-2 bg-indigo-500 text-white font-medium rounded-md hover:bg-indigo-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200 text-sm"
+          >
+            Retry Step
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StepPlaceholderCard;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { StepValidation, ValidationCheckId } from '../types';
+import { DEFAULT_STEP_VALIDATION, VALIDATION_CHECK_LABELS } from '../services/validation';
+import { isPlaceholder } from '../services/promptTemplate';
+
+interface StepValidationEditorProps {
+  validation?: StepValidation;
+  onChange: (validation: StepValidation | undefined) => void;
+  /** Names of the pipeline's colour variables, which the background colour can follow. */
+  colorVariables?: string[];
+}
+
+const CHECK_IDS = Object.keys(VALIDATION_CHECK_LABELS) as ValidationCheckId[];
+
+/** Numeric thresholds per check, all edited as percentages. */
+const THRESHOLD_FIELDS: Record<ValidationCheckId, { field: string; label: string }[]> = {
+  background: [
+    { field: 'minCoverage', label: 'Min. border coverage' },
+    { field: 'maxDeviation', label: 'Max. colour deviation' },
+  ],
+  margins: [{ field: 'minMargin', label: 'Min. margin' }],
+  aspectRatio: [{ field: 'tolerance', label: 'Tolerance' }],
+  resolution: [{ field: 'tolerance', label: 'Tolerance' }],
+};
+
+const FIXED_COLOR = '';
+
+const StepValidationEditor: React.FC<StepValidationEditorProps> = ({ validation, onChange, colorVariables = [] }) => {
+  const current: StepValidation = validation ?? { maxRetries: DEFAULT_STEP_VALIDATION.maxRetries };
+  const enabledCount = CHECK_IDS.filter((id) => current[id]).length;
+
+  // A step with every check switched off has no validation at all.
+  const update = (changes: Partial<StepValidation>) => {
+    const next = { ...current, ...changes };
+    onChange(CHECK_IDS.some((id) => next[id]) ? next : undefined);
+  };
+
+  const toggleCheck = (id: ValidationCheckId, enabled: boolean) => {
+    update({ [id]: enabled ? DEFAULT_STEP_VALIDATION[id] : undefined });
+  };
+
+  const updateThreshold = (id: ValidationCheckId, field: string, percent: number) => {
+    update({ [id]: { ...current[id], [field]: Math.min(100, Math.max(0, percent)) / 100 } });
+  };
+
+  return (
+    <details className="mt-2 text-sm text-gray-700">
+      <summary className="cursor-pointer">
+        Quality checks {enabledCount > 0 ? `(${enabledCount} on, ${current.maxRetries} auto-retries)` : '(off)'}
+      </summary>
+      <div className="mt-2 space-y-2 pl-4">
+        {CHECK_IDS.map((id) => {
+          const settings = current[id] as Record<string, number> | undefined;
+          return (
+            <div key={id} className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 w-40">
+                <input type="checkbox" checked={Boolean(settings)} onChange={(e) => toggleCheck(id, e.target.checked)} />
+                {VALIDATION_CHECK_LABELS[id]}
+              </label>
+              {settings &&
+                THRESHOLD_FIELDS[id].map(({ field, label }) => (
+                  <label key={field}>
+                    {label}
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={Math.round(settings[field] * 100)}
+                      onChange={(e) => updateThreshold(id, field, Number(e.target.value) || 0)}
+                      className="ml-2 w-16 px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                    %
+                  </label>
+                ))}
+              {id === 'background' && current.background && (
+                <label className="flex items-center gap-2">
+                  Colour
+                  {(colorVariables.length > 0 || isPlaceholder(current.background.color)) && (
+                    <select
+                      value={isPlaceholder(current.background.color) ? current.background.color : FIXED_COLOR}
+                      onChange={(e) =>
+                        update({
+                          background: {
+                            ...current.background!,
+                            color: e.target.value === FIXED_COLOR ? DEFAULT_STEP_VALIDATION.background.color : e.target.value,
+                          },
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+                    >
+                      <option value={FIXED_COLOR}>Fixed</option>
+                      {colorVariables.map((name) => (
+                        <option key={name} value={`{{${name}}}`}>{`{{${name}}}`}</option>
+                      ))}
+                    </select>
+                  )}
+                  {!isPlaceholder(current.background.color) && (
+                    <input
+                      type="color"
+                      value={current.background.color}
+                      onChange={(e) => update({ background: { ...current.background!, color: e.target.value } })}
+                    />
+                  )}
+                </label>
+              )}
+            </div>
+          );
+        })}
+        {enabledCount > 0 && (
+          <label className="block">
+            Auto-retries on failure
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={current.maxRetries}
+              onChange={(e) => update({ maxRetries: Math.min(5, Math.max(0, Number(e.target.value) || 0)) })}
+              className="ml-2 w-16 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default StepValidationEditor;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { TemplateVariable, TemplateVariableType } from '../types';
+import { TEMPLATE_VARIABLE_TYPES } from '../services/promptTemplate';
+
+interface TemplateVariablesEditorProps {
+  variables: TemplateVariable[];
+  onChange: (variables: TemplateVariable[]) => void;
+}
+
+const VARIABLE_TYPES = Object.keys(TEMPLATE_VARIABLE_TYPES) as TemplateVariableType[];
+
+/** A default that fits a variable of the given type. */
+const defaultFor = (type: TemplateVariableType, options: string[] = []): string =>
+  type === 'color' ? '#00FF00' : type === 'choice' ? options[0] ?? '' : '';
+
+const TemplateVariablesEditor: React.FC<TemplateVariablesEditorProps> = ({ variables, onChange }) => {
+  const updateVariable = (index: number, changes: Partial<TemplateVariable>) => {
+    onChange(variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+  };
+
+  const changeType = (index: number, type: TemplateVariableType) => {
+    const options = type === 'choice' ? variables[index].options ?? [] : undefined;
+    updateVariable(index, { type, options, default: defaultFor(type, options) });
+  };
+
+  const addVariable = () => {
+    onChange([...variables, { name: `var${variables.length + 1}`, label: 'New variable', type: 'text', default: '' }]);
+  };
+
+  return (
+    <details className="text-sm text-gray-700">
+      <summary className="cursor-pointer text-lg font-semibold text-gray-800">
+        Template variables <span className="text-sm font-normal text-gray-500">({variables.length})</span>
+      </summary>
+      <p className="mt-2 text-gray-600">
+        Prompts reference a variable as <code>{'{{name}}'}</code>, and a colour in words as <code>{'{{name:name}}'}</code>. Values
+        are filled in before each run; background checks can follow a colour variable.
+      </p>
+      <ul className="mt-2 space-y-2">
+        {variables.map((variable, index) => (
+          <li key={index} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={variable.name}
+              onChange={(e) => updateVariable(index, { name: e.target.value.trim() })}
+              className="w-32 px-2 py-1 border border-gray-300 rounded-md font-mono text-xs"
+              aria-label="Variable name"
+            />
+            <input
+              type="text"
+              value={variable.label}
+              onChange={(e) => updateVariable(index, { label: e.target.value })}
+              className="w-40 px-2 py-1 border border-gray-300 rounded-md"
+              aria-label="Variable label"
+            />
+            <select
+              value={variable.type}
+              onChange={(e) => changeType(index, e.target.value as TemplateVariableType)}
+              className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+              aria-label="Variable type"
+            >
+              {VARIABLE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {TEMPLATE_VARIABLE_TYPES[type]}
+                </option>
+              ))}
+            </select>
+            {variable.type === 'choice' && (
+              <input
+                type="text"
+                value={(variable.options ?? []).join(', ')}
+                onChange={(e) =>
+                  updateVariable(index, {
+                    options: e.target.value.split(',').map((option) => option.trim()).filter(Boolean),
+                  })
+                }
+                placeholder="Options, comma separated"
+                className="w-48 px-2 py-1 border border-gray-300 rounded-md"
+                aria-label="Variable options"
+              />
+            )}
+            <label className="flex items-center gap-1">
+              Default
+              {variable.type === 'color' ? (
+                <input
+                  type="color"
+                  value={variable.default}
+                  onChange={(e) => updateVariable(index, { default: e.target.value.toUpperCase() })}
+                />
+              ) : variable.type === 'choice' ? (
+                <select
+                  value={variable.default}
+                  onChange={(e) => updateVariable(index, { default: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+                >
+                  {(variable.options ?? []).map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={variable.default}
+                  onChange={(e) => updateVariable(index, { default: e.target.value })}
+                  className="w-40 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              )}
+            </label>
+            <button
+              onClick={() => onChange(variables.filter((_, i) => i !== index))}
+              className="px-2 py-1 text-sm bg-red-50 text-red-700 border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={addVariable}
+        className="mt-2 px-3 py-1 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 disabled:opacity-50"
+      >
+        Add Variable
+      </button>
+    </details>
+  );
+};
+
+export default TemplateVariablesEditor;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { TemplateVariable } from '../types';
+import { checkTemplateValue } from '../services/promptTemplate';
+
+interface TemplateVariablesFormProps {
+  variables: TemplateVariable[];
+  /** Values entered so far, keyed by variable name; missing values show the default. */
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  disabled: boolean;
+}
+
+/**
+ * Lets the user fill in the pipeline's template variables before starting a run.
+ */
+const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({ variables, values, onChange, disabled }) => {
+  if (variables.length === 0) {
+    return null;
+  }
+
+  const setValue = (name: string, value: string) => onChange({ ...values, [name]: value });
+
+  return (
+    <fieldset disabled={disabled} className="mb-4 mx-auto max-w-2xl text-left text-sm text-gray-700">
+      <legend className="font-semibold text-gray-800">Prompt variables</legend>
+      <div className="mt-2 grid grid-cols-1 sm:grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2">
+        {variables.map((variable) => {
+          const value = values[variable.name] ?? variable.default;
+          const problem = checkTemplateValue(variable, value);
+          return (
+            <React.Fragment key={variable.name}>
+              <label htmlFor={`template-variable-${variable.name}`} title={variable.description}>
+                {variable.label}
+              </label>
+              <div>
+                {variable.type === 'color' ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      id={`template-variable-${variable.name}`}
+                      type="color"
+                      value={problem ? variable.default : value}
+                      onChange={(e) => setValue(variable.name, e.target.value.toUpperCase())}
+                    />
+                    <input
+                      type="text"
+                      value={value}
+                      onChange={(e) => setValue(variable.name, e.target.value.trim())}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded-md font-mono text-xs"
+                      aria-label={`${variable.label} hex value`}
+                    />
+                  </div>
+                ) : variable.type === 'choice' ? (
+                  <select
+                    id={`template-variable-${variable.name}`}
+                    value={value}
+                    onChange={(e) => setValue(variable.name, e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+                  >
+                    {(variable.options ?? []).map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    id={`template-variable-${variable.name}`}
+                    type="text"
+                    value={value}
+                    onChange={(e) => setValue(variable.name, e.target.value)}
+                    placeholder={variable.description}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                )}
+                {problem && <p className="mt-1 text-xs text-red-700">{problem}</p>}
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+};
+
+export default TemplateVariablesForm;
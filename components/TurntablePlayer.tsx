@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { ChromaKeyOptions } from '../services/chromaKey';
+import { NormalizedFrame, normalizeImages } from '../services/compositor';
+import {
+  TURNTABLE_FORMATS,
+  TurntableFormat,
+  buildTurntableFrames,
+  drawTurntableFrame,
+  exportTurntable,
+  findViewImages,
+  turntableSize,
+} from '../services/turntable';
+import { downloadUrl } from '../utils/fileUtils';
+
+interface TurntablePlayerProps {
+  images: GeneratedImage[];
+  chromaKeyOptions: ChromaKeyOptions;
+  /** File name stem for exports, e.g. the source image name. */
+  exportName: string;
+}
+
+const BACKGROUNDS: { label: string; value: string | null }[] = [
+  { label: 'Transparent', value: null },
+  { label: 'White', value: '#ffffff' },
+  { label: 'Grey', value: '#9ca3af' },
+];
+
+const PADDING = 16;
+
+const TurntablePlayer: React.FC<TurntablePlayerProps> = ({ images, chromaKeyOptions, exportName }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Selected by step rather than image id so regenerated versions stay selected.
+  const [selectedStepIds, setSelectedStepIds] = useState<Set<string>>(
+    () => new Set(findViewImages(images).map((image) => image.stepId)),
+  );
+  const [subjectHeight, setSubjectHeight] = useState<number>(384);
+  const [frameMs, setFrameMs] = useState<number>(300);
+  // Per-frame durations that differ from frameMs, keyed by frame name.
+  const [holdMs, setHoldMs] = useState<Record<string, number>>({});
+  const [mirror, setMirror] = useState<boolean>(true);
+  const [onionSkin, setOnionSkin] = useState<number>(0);
+  const [background, setBackground] = useState<string | null>('#ffffff');
+  const [format, setFormat] = useState<TurntableFormat>('gif');
+  const [normalized, setNormalized] = useState<NormalizedFrame[]>([]);
+  const [isPlaying, setIsPlaying] = useState<boolean>(true);
+  const [frameIndex, setFrameIndex] = useState<number>(0);
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedImages = useMemo(
+    () => images.filter((image) => selectedStepIds.has(image.stepId)),
+    [images, selectedStepIds],
+  );
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsWorking(true);
+    normalizeImages(selectedImages, subjectHeight, chromaKeyOptions)
+      .then((result) => {
+        if (isCurrent) {
+          setNormalized(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setIsWorking(false);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedImages, subjectHeight, chromaKeyOptions]);
+
+  const frames = useMemo(() => buildTurntableFrames(normalized, mirror), [normalized, mirror]);
+  const durations = frames.map((frame) => holdMs[frame.name] ?? frameMs);
+  const renderOptions = { padding: PADDING, background, onionSkin };
+  const currentIndex = frames.length > 0 ? frameIndex % frames.length : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || frames.length === 0) {
+      return;
+    }
+    const { width, height } = turntableSize(frames, PADDING);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    drawTurntableFrame(canvas, frames, currentIndex, renderOptions);
+  }, [frames, currentIndex, background, onionSkin]);
+
+  useEffect(() => {
+    if (!isPlaying || frames.length < 2) {
+      return;
+    }
+    const timer = window.setTimeout(() => setFrameIndex((currentIndex + 1) % frames.length), durations[currentIndex]);
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, frames, currentIndex, durations[currentIndex]]);
+
+  const toggleStep = (stepId: string) => {
+    setSelectedStepIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(stepId)) {
+        next.delete(stepId);
+      } else {
+        next.add(stepId);
+      }
+      return next;
+    });
+  };
+
+  const stepFrame = (offset: number) => {
+    setIsPlaying(false);
+    setFrameIndex((currentIndex + offset + frames.length) % frames.length);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await exportTurntable(frames, durations, renderOptions, format);
+      const url = URL.createObjectURL(blob);
+      downloadUrl(url, `${exportName}_turntable.${TURNTABLE_FORMATS[format].extension}`);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(`Failed to export the turntable: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <section className="mt-10 p-6 bg-white rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Turntable</h2>
+
+      <div className="flex flex-wrap items-center justify-center gap-4 mb-4 text-sm text-gray-700">
+        <label>
+          Frame time (ms)
+          <input
+            type="number"
+            min={20}
+            max={5000}
+            step={20}
+            value={frameMs}
+            onChange={(e) => setFrameMs(Math.max(20, Number(e.target.value) || 20))}
+            className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label>
+          Subject height
+          <input
+            type="number"
+            min={64}
+            max={2048}
+            step={32}
+            value={subjectHeight}
+            onChange={(e) => setSubjectHeight(Math.max(64, Number(e.target.value) || 64))}
+            className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label className="flex items-center gap-2" title="Repeat the in-between views flipped to fill in the other side">
+          <input type="checkbox" checked={mirror} onChange={(e) => setMirror(e.target.checked)} />
+          Mirror views
+        </label>
+        <label className="flex items-center gap-2">
+          Onion skin
+          <input
+            type="range"
+            min={0}
+            max={0.8}
+            step={0.05}
+            value={onionSkin}
+            onChange={(e) => setOnionSkin(Number(e.target.value))}
+          />
+        </label>
+        <label>
+          Background
+          <select
+            value={background ?? ''}
+            onChange={(e) => setBackground(e.target.value || null)}
+            className="ml-2 px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {BACKGROUNDS.map(({ label, value }) => (
+              <option key={label} value={value ?? ''}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3 mb-4 text-sm text-gray-700">
+        {images.map((image) => (
+          <label key={image.id} className="flex items-center gap-1">
+            <input type="checkbox" checked={selectedStepIds.has(image.stepId)} onChange={() => toggleStep(image.stepId)} />
+            {image.name}
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-700 text-center mb-4">{error}</p>}
+
+      <div className="w-full min-h-[12rem] bg-gray-50 border border-gray-200 rounded-lg flex items-center justify-center p-2 overflow-auto">
+        {isWorking ? (
+          <span className="text-gray-500 text-sm">Normalising images...</span>
+        ) : frames.length === 0 ? (
+          <span className="text-gray-500 text-sm">Select at least one image with a visible subject.</span>
+        ) : null}
+        <canvas
+          ref={canvasRef}
+          className={`max-w-full max-h-[32rem] ${isWorking || frames.length === 0 ? 'hidden' : ''}`}
+          aria-label="Turntable preview"
+        />
+      </div>
+
+      {frames.length > 0 && (
+        <>
+          <div className="mt-3 flex items-center justify-center gap-3 text-sm text-gray-700">
+            <button onClick={() => stepFrame(-1)} className="px-2 py-1 rounded-md hover:bg-gray-100" aria-label="Previous frame">
+              ‹
+            </button>
+            <button
+              onClick={() => setIsPlaying(!isPlaying)}
+              className="px-4 py-1 bg-gray-800 text-white rounded-md hover:bg-gray-700"
+            >
+              {isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <button onClick={() => stepFrame(1)} className="px-2 py-1 rounded-md hover:bg-gray-100" aria-label="Next frame">
+              ›
+            </button>
+            <span>
+              Frame {currentIndex + 1} of {frames.length}: {frames[currentIndex].name}
+            </span>
+          </div>
+          <details className="mt-2 text-sm text-gray-700 text-center">
+            <summary className="cursor-pointer">Per-frame timing</summary>
+            <div className="mt-2 flex flex-wrap justify-center gap-3">
+              {frames.map((frame) => (
+                <label key={frame.name}>
+                  {frame.name}
+                  <input
+                    type="number"
+                    min={20}
+                    max={5000}
+                    step={20}
+                    value={holdMs[frame.name] ?? frameMs}
+                    onChange={(e) => setHoldMs({ ...holdMs, [frame.name]: Math.max(20, Number(e.target.value) || 20) })}
+                    className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md"
+                    aria-label={`${frame.name} duration in milliseconds`}
+                  />
+                </label>
+              ))}
+            </div>
+          </details>
+        </>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as TurntableFormat)}
+          className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm"
+          aria-label="Export format"
+        >
+          {(Object.keys(TURNTABLE_FORMATS) as TurntableFormat[]).map((candidate) => (
+            <option key={candidate} value={candidate}>
+              {TURNTABLE_FORMATS[candidate].label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={frames.length === 0 || isWorking || isExporting}
+          className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? (format === 'webm' ? 'Recording...' : 'Encoding...') : 'Export Animation'}
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500 text-center">
+        Exports contain one rotation without the onion skin. WebM is recorded in real time and has no transparency.
+      </p>
+    </section>
+  );
+};
+
+export default TurntablePlayer;
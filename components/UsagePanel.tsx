@@ -0,0 +1,158 @@
+import React from 'react';
+import { UsageTotals } from '../types';
+import {
+  DailyUsage,
+  PriceTable,
+  UsageBudget,
+  estimateTotalCost,
+  formatCost,
+  totalUsage,
+  usageDay,
+} from '../services/usage';
+
+interface UsagePanelProps {
+  /** Usage of the source shown in the gallery, keyed by model. */
+  runUsage: Record<string, UsageTotals> | null;
+  runName?: string;
+  dailyUsage: DailyUsage;
+  prices: PriceTable;
+  onPricesChange: (prices: PriceTable) => void;
+  budget: UsageBudget;
+  onBudgetChange: (budget: UsageBudget) => void;
+  disabled: boolean;
+}
+
+const UsageRow: React.FC<{ label: string; usage: Record<string, UsageTotals>; prices: PriceTable }> = ({
+  label,
+  usage,
+  prices,
+}) => {
+  const total = totalUsage(usage);
+  return (
+    <tr>
+      <td className="pr-4 py-1 font-medium">{label}</td>
+      <td className="pr-4 py-1 text-right">{total.calls}</td>
+      <td className="pr-4 py-1 text-right">{total.promptTokens.toLocaleString()}</td>
+      <td className="pr-4 py-1 text-right">{total.outputTokens.toLocaleString()}</td>
+      <td className="py-1 text-right">{formatCost(estimateTotalCost(usage, prices))}</td>
+    </tr>
+  );
+};
+
+/** Parses a limit field; empty means no limit. */
+const parseLimit = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Math.max(0, Math.floor(Number(value) || 0));
+
+const UsagePanel: React.FC<UsagePanelProps> = ({
+  runUsage,
+  runName,
+  dailyUsage,
+  prices,
+  onPricesChange,
+  budget,
+  onBudgetChange,
+  disabled,
+}) => {
+  const today = dailyUsage[usageDay()] ?? {};
+  const todayCost = estimateTotalCost(today, prices);
+  // Price every model that has been priced or used, so new models can be given a price.
+  const models = [...new Set([...Object.keys(prices), ...Object.keys(today), ...Object.keys(runUsage ?? {})])];
+
+  const updatePrice = (model: string, field: 'inputPerMillion' | 'outputPerMillion', value: number) => {
+    const current = prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    onPricesChange({ ...prices, [model]: { ...current, [field]: Math.max(0, value) } });
+  };
+
+  return (
+    <details className="mb-10 p-6 bg-white rounded-xl shadow-lg border border-gray-200">
+      <summary className="text-2xl font-semibold text-gray-800 cursor-pointer">
+        Usage &amp; Budget <span className="text-base font-normal text-gray-500">(today ~{formatCost(todayCost)})</span>
+      </summary>
+
+      <table className="mt-4 text-sm text-gray-700">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="pr-4 font-normal"></th>
+            <th className="pr-4 font-normal text-right">Calls</th>
+            <th className="pr-4 font-normal text-right">Input tokens</th>
+            <th className="pr-4 font-normal text-right">Output tokens</th>
+            <th className="font-normal text-right">Est. cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runUsage && <UsageRow label={runName ? `Run: ${runName}` : 'This run'} usage={runUsage} prices={prices} />}
+          <UsageRow label="Today" usage={today} prices={prices} />
+        </tbody>
+      </table>
+      <p className="mt-1 text-xs text-gray-500">
+        Today's total counts requests made from this browser. Costs are estimates from the price table below.
+      </p>
+
+      <fieldset disabled={disabled} className="mt-6">
+        <legend className="text-lg font-semibold text-gray-800">Budget per run</legend>
+        <p className="text-sm text-gray-600 mb-2">
+          A source that needs more calls than allowed is not started; one that reaches a limit part way pauses before its
+          next step. Leave empty for no limit.
+        </p>
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+          <label>
+            Max calls
+            <input
+              type="number"
+              min={0}
+              value={budget.maxCalls ?? ''}
+              onChange={(e) => onBudgetChange({ ...budget, maxCalls: parseLimit(e.target.value) })}
+              className="ml-2 w-24 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label>
+            Max tokens
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={budget.maxTokens ?? ''}
+              onChange={(e) => onBudgetChange({ ...budget, maxTokens: parseLimit(e.target.value) })}
+              className="ml-2 w-32 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+        </div>
+      </fieldset>
+
+      <fieldset disabled={disabled} className="mt-6">
+        <legend className="text-lg font-semibold text-gray-800">Prices (USD per million tokens)</legend>
+        <table className="mt-2 text-sm text-gray-700">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pr-4 font-normal">Model</th>
+              <th className="pr-4 font-normal">Input</th>
+              <th className="font-normal">Output</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((model) => (
+              <tr key={model}>
+                <td className="pr-4 py-1 font-mono text-xs">{model}</td>
+                {(['inputPerMillion', 'outputPerMillion'] as const).map((field) => (
+                  <td key={field} className="pr-4 py-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={prices[model]?.[field] ?? 0}
+                      onChange={(e) => updatePrice(model, field, Number(e.target.value) || 0)}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                      aria-label={`${model} ${field === 'inputPerMillion' ? 'input' : 'output'} price`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </fieldset>
+    </details>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,130 @@
+import { Pipeline, StepValidation, TemplateVariable } from './types';
+
+/**
+ * Input reference that points at the original uploaded image rather than another step.
+ */
+export const SOURCE_INPUT_ID = 'source';
+
+/**
+ * How many pipeline steps may call the image provider at the same time by default.
+ */
+export const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Suggested labels for reference images. Steps select references by label, so any other label works too.
+ */
+export const REFERENCE_LABELS = ['front photo', 'side photo', 'back photo', 'style reference'];
+
+/**
+ * Variables shared by the built-in pipeline and the bundled presets.
+ */
+export const CHARACTER_SHEET_VARIABLES: TemplateVariable[] = [
+  {
+    name: 'background',
+    label: 'Background colour',
+    type: 'color',
+    default: '#00FF00',
+    description: 'Flat colour behind the subject. Prompts name it in words, and background quality checks follow it.',
+  },
+  {
+    name: 'subject',
+    label: 'Subject',
+    type: 'text',
+    default: 'person or caricature',
+    description: 'What the image shows, e.g. "person", "creature" or "robot".',
+  },
+  {
+    name: 'style',
+    label: 'Art style',
+    type: 'text',
+    default: '',
+    description: 'Optional sentence added to every prompt, e.g. "Render it as a cel-shaded cartoon."',
+  },
+];
+
+const BACKGROUND_CLAUSE = 'The background must be a solid, {{background:name}} screen (hex {{background}}).';
+const CAMERA_ONLY_CLAUSE = 'Do not change the pose from the original subject, just the camera angle.';
+const T_POSE_CLAUSE = 'into a standard T-pose (arms outstretched horizontally, palms down, legs together)';
+const NO_PROPS_CLAUSE = 'Remove any weapons or accessories the subject might be holding.';
+
+/**
+ * Checks for steps that must produce a framed subject on the flat `{{background}}` colour.
+ */
+const GREEN_SCREEN_VALIDATION: StepValidation = {
+  maxRetries: 1,
+  background: { color: '{{background}}', minCoverage: 0.9, maxDeviation: 0.15 },
+  margins: { minMargin: 0.02 },
+  aspectRatio: { tolerance: 0.05 },
+};
+
+/**
+ * The character-sheet pipeline: background removal, a chained front/side/back view set,
+ * and T-poses that all start from the green-screened original.
+ */
+export const DEFAULT_PIPELINE: Pipeline = {
+  id: 'character-sheet',
+  name: 'Character Sheet',
+  description: 'Green screen cut-out, turnaround views and T-poses.',
+  variables: CHARACTER_SHEET_VARIABLES,
+  steps: [
+    {
+      id: 'green-screen',
+      name: "Green Screen Background",
+      description: "Original image with background removed and replaced with a green screen.",
+      prompt: 'Remove the background from this image and replace it with a solid, {{background:name}} screen (hex {{background}}). Ensure the subject is clearly visible. {{style}}',
+      input: SOURCE_INPUT_ID,
+      validation: GREEN_SCREEN_VALIDATION,
+    },
+    {
+      id: 'front-view',
+      name: "Front View (Green Screen)",
+      description: "A front view of the subject with a green screen background.",
+      prompt: `Generate a clear front view of the {{subject}} in this image. ${BACKGROUND_CLAUSE} ${CAMERA_ONLY_CLAUSE} {{style}}`,
+      input: 'green-screen',
+      references: ['front photo', 'style reference'],
+      validation: GREEN_SCREEN_VALIDATION,
+    },
+    {
+      id: 'side-view',
+      name: "Side View (Green Screen)",
+      description: "A side view of the subject with a green screen background.",
+      prompt: `Generate a clear side view of the {{subject}} in this image. ${BACKGROUND_CLAUSE} ${CAMERA_ONLY_CLAUSE} {{style}}`,
+      input: 'front-view',
+      references: ['side photo', 'style reference'],
+      validation: GREEN_SCREEN_VALIDATION,
+    },
+    {
+      id: 'back-view',
+      name: "Back View (Green Screen)",
+      description: "A back view of the subject with a green screen background.",
+      prompt: `Generate a clear back view of the {{subject}} in this image. ${BACKGROUND_CLAUSE} ${CAMERA_ONLY_CLAUSE} {{style}}`,
+      input: 'side-view',
+      references: ['back photo', 'style reference'],
+      validation: GREEN_SCREEN_VALIDATION,
+    },
+    {
+      id: 'tpose-front',
+      name: "T-Pose Front View (Green Screen)",
+      description: "The subject in a T-pose, front view, with a green screen background.",
+      prompt: `Transform the {{subject}} in this image ${T_POSE_CLAUSE}, facing directly front. ${BACKGROUND_CLAUSE} ${NO_PROPS_CLAUSE} {{style}}`,
+      input: 'green-screen',
+      validation: GREEN_SCREEN_VALIDATION,
+    },
+    {
+      id: 'tpose-side',
+      name: "T-Pose Side View (Green Screen)",
+      description: "The subject in a T-pose, side view, with a green screen background.",
+      prompt: `Transform the {{subject}} in this image ${T_POSE_CLAUSE}, facing directly side. ${BACKGROUND_CLAUSE} ${NO_PROPS_CLAUSE} {{style}}`,
+      input: 'green-screen',
+      validation: GREEN_SCREEN_VALIDATION,
+    },
+    {
+      id: 'tpose-back',
+      name: "T-Pose Back View (Green Screen)",
+      description: "The subject in a T-pose, back view, with a green screen background.",
+      prompt: `Transform the {{subject}} in this image ${T_POSE_CLAUSE}, facing directly back. ${BACKGROUND_CLAUSE} ${NO_PROPS_CLAUSE} {{style}}`,
+      input: 'green-screen',
+      validation: GREEN_SCREEN_VALIDATION,
+    },
+  ],
+};
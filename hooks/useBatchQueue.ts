@@ -0,0 +1,550 @@
+import { useCallback, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BatchItem,
+  GeneratedImage,
+  Pipeline,
+  PipelineStep,
+  Project,
+  ProviderSettings,
+  StepImage,
+  StepStatus,
+  UsageTotals,
+} from '../types';
+import { createGeneratedImage, findStaleSteps, runPipeline, selectReferences } from '../services/pipelineService';
+import { getImageProvider } from '../services/imageProviders';
+import { BudgetExceededError, describeError } from '../services/errors';
+import { validateStepOutput } from '../services/validation';
+import { inpaintImage } from '../services/inpainting';
+import { ResultCacheOptions } from '../services/resultCache';
+import { UsageBudget, addModelUsage } from '../services/usage';
+import { dataUrlToFile, parseDataUrl, readFileAsDataUrl } from '../utils/fileUtils';
+import { SOURCE_INPUT_ID } from '../constants';
+
+export type QueueState = 'idle' | 'running' | 'paused';
+
+interface UseBatchQueueOptions {
+  pipeline: Pipeline;
+  providerSettings: ProviderSettings;
+  concurrency: number;
+  /** Result cache to serve repeated identical requests from; runs call the provider directly without it. */
+  cache?: ResultCacheOptions;
+  /** Call and token limits applied to each run of a source. */
+  budget?: UsageBudget;
+  /** Reports the usage of each provider request, e.g. to keep a daily ledger. */
+  onUsage?: (model: string, usage: UsageTotals) => void;
+}
+
+interface RunItemOptions {
+  /** Only run these steps (plus missing upstream steps), replacing their current output. */
+  targetStepIds?: string[];
+  /** Prompts that replace a step's own prompt for this run only, keyed by step id. */
+  prompts?: Record<string, string>;
+  /** Apply the (overridden) prompt to this existing version instead of to the step's input. */
+  refineFrom?: GeneratedImage;
+  /** Ask the provider for a new result even if an identical request is cached. */
+  bypassCache?: boolean;
+}
+
+const outputsOf = (images: GeneratedImage[]): Record<string, StepImage> =>
+  Object.fromEntries(images.map((image) => [image.stepId, parseDataUrl(image.src)]));
+
+const isComplete = (item: BatchItem) =>
+  item.runSteps.length > 0 && item.runSteps.every((step) => item.images.some((image) => image.stepId === step.id));
+
+const createItem = ({ file, upload }: Pick<BatchItem, 'file' | 'upload'>, sourceDataUrl: string): BatchItem => {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    file,
+    sourceDataUrl,
+    upload,
+    references: [],
+    projectName: `${file.name} · ${now.toLocaleString()}`,
+    createdAt: now.toISOString(),
+    status: 'pending',
+    runSteps: [],
+    runPipelineInfo: null,
+    providerSettings: null,
+    images: [],
+    versions: {},
+    stepStatuses: {},
+    stepMessages: {},
+    usage: {},
+  };
+};
+
+const pipelineInfoOf = ({ steps, ...info }: Pipeline): Omit<Pipeline, 'steps'> => info;
+
+const groupByStep = (images: GeneratedImage[]): Record<string, GeneratedImage[]> =>
+  Object.fromEntries(images.map((image) => [image.stepId, [image]]));
+
+/**
+ * Holds the batch of source images and runs the pipeline over them one source at a time.
+ * Pausing lets in-flight steps finish and resumes from the first incomplete step; cancelling
+ * aborts in-flight requests.
+ */
+export const useBatchQueue = ({
+  pipeline,
+  providerSettings,
+  concurrency,
+  cache,
+  budget,
+  onUsage,
+}: UseBatchQueueOptions) => {
+  const [items, setItemsState] = useState<BatchItem[]>([]);
+  const [queueState, setQueueStateState] = useState<QueueState>('idle');
+  // Mirrors of the state above that the long-running queue loop can read without stale closures.
+  const itemsRef = useRef<BatchItem[]>([]);
+  const queueStateRef = useRef<QueueState>('idle');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const pauseControllerRef = useRef<AbortController | null>(null);
+
+  const setItems = useCallback((updater: (prev: BatchItem[]) => BatchItem[]) => {
+    itemsRef.current = updater(itemsRef.current);
+    setItemsState(itemsRef.current);
+  }, []);
+
+  const setQueueState = useCallback((state: QueueState) => {
+    queueStateRef.current = state;
+    setQueueStateState(state);
+  }, []);
+
+  const updateItem = useCallback(
+    (id: string, changes: Partial<BatchItem> | ((item: BatchItem) => Partial<BatchItem>)) => {
+      setItems((prev) =>
+        prev.map((item) =>
+          item.id === id ? { ...item, ...(typeof changes === 'function' ? changes(item) : changes) } : item,
+        ),
+      );
+    },
+    [setItems],
+  );
+
+  /**
+   * Adds prepared source images to the queue.
+   */
+  const addFiles = useCallback(
+    async (sources: Pick<BatchItem, 'file' | 'upload'>[]) => {
+      const added = await Promise.all(sources.map(async (source) => createItem(source, await readFileAsDataUrl(source.file))));
+      setItems((prev) => [...prev, ...added]);
+      return added;
+    },
+    [setItems],
+  );
+
+  /**
+   * Adds a saved project to the queue (or returns it if it is already there).
+   */
+  const addProject = useCallback(
+    (project: Project): BatchItem => {
+      const existing = itemsRef.current.find((item) => item.id === project.id);
+      if (existing) {
+        return existing;
+      }
+      const item: BatchItem = {
+        id: project.id,
+        file: dataUrlToFile(project.source.dataUrl, project.source.name),
+        sourceDataUrl: project.source.dataUrl,
+        references: project.references ?? [],
+        projectName: project.name,
+        createdAt: project.createdAt,
+        status: 'pending',
+        runSteps: project.pipeline.steps,
+        runPipelineInfo: pipelineInfoOf(project.pipeline),
+        providerSettings: project.providerSettings,
+        images: project.images,
+        versions: project.versions ?? groupByStep(project.images),
+        stepStatuses: Object.fromEntries(project.images.map((image) => [image.stepId, 'done' as const])),
+        stepMessages: {},
+        usage: project.usage ?? {},
+      };
+      item.status = isComplete(item) ? 'done' : 'paused';
+      setItems((prev) => [...prev, item]);
+      return item;
+    },
+    [setItems],
+  );
+
+  const removeItem = useCallback(
+    (id: string) => setItems((prev) => prev.filter((item) => item.id !== id)),
+    [setItems],
+  );
+
+  const clearItems = useCallback(() => setItems(() => []), [setItems]);
+
+  /**
+   * Runs one item. A pending item without a run yet starts fresh with the current pipeline;
+   * otherwise completed outputs are reused and only the missing (or targeted) steps run.
+   * Every new output is added to its step's versions and becomes the preferred one.
+   */
+  const runItem = useCallback(
+    async (item: BatchItem, { targetStepIds, prompts = {}, refineFrom, bypassCache }: RunItemOptions = {}) => {
+      const isFresh = item.runSteps.length === 0;
+      const runSteps: PipelineStep[] = isFresh ? pipeline.steps : item.runSteps;
+      const runStepsById = new Map(runSteps.map((step) => [step.id, step]));
+      const settings = isFresh || !item.providerSettings ? providerSettings : item.providerSettings;
+      const completed = isFresh ? {} : outputsOf(item.images);
+      targetStepIds?.forEach((stepId) => delete completed[stepId]);
+      // Id of the preferred image per step as the run progresses, to record what each output chained off.
+      const imageIds: Record<string, string> = isFresh
+        ? {}
+        : Object.fromEntries(item.images.map((image) => [image.stepId, image.id]));
+
+      let steps = runSteps.map((step) => (step.id in prompts ? { ...step, prompt: prompts[step.id] } : step));
+      let source = parseDataUrl(item.sourceDataUrl);
+      if (refineFrom) {
+        // A follow-up edits the chosen version directly, so run just that step with it as the source.
+        steps = steps
+          .filter((step) => step.id === refineFrom.stepId)
+          .map((step) => ({ ...step, input: SOURCE_INPUT_ID }));
+        source = parseDataUrl(refineFrom.src);
+      }
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      updateItem(item.id, {
+        status: 'running',
+        runSteps,
+        runPipelineInfo: isFresh ? pipelineInfoOf(pipeline) : item.runPipelineInfo,
+        providerSettings: settings,
+        // A fresh run clears the current outputs, but earlier ones stay in each step's version history.
+        ...(isFresh ? { images: [], stepStatuses: {}, stepMessages: {} } : {}),
+      });
+
+      const recordUsage = (usage: UsageTotals) => {
+        updateItem(item.id, (current) => ({ usage: addModelUsage(current.usage, settings.model, usage) }));
+        onUsage?.(settings.model, usage);
+      };
+
+      try {
+        const { paused, budgetExceeded, failures } = await runPipeline({ ...pipeline, steps }, source, {
+          provider: getImageProvider(settings.providerId),
+          model: settings.model,
+          concurrency,
+          signal: controller.signal,
+          pauseSignal: pauseControllerRef.current?.signal,
+          completed: refineFrom ? {} : completed,
+          targetStepIds,
+          references: item.references.map(({ label, dataUrl }) => ({ label, image: parseDataUrl(dataUrl) })),
+          validateOutput: validateStepOutput,
+          cache: cache && { ...cache, bypass: cache.bypass || bypassCache },
+          budget,
+          onStepStatus: (step, status, stepError) => {
+            updateItem(item.id, (current) => ({
+              stepStatuses: { ...current.stepStatuses, [step.id]: status },
+              stepMessages: { ...current.stepMessages, [step.id]: stepError ? describeError(stepError) : '' },
+            }));
+          },
+          onStepRetry: (step, attempt, stepError) => {
+            updateItem(item.id, (current) => ({
+              stepMessages: {
+                ...current.stepMessages,
+                [step.id]: `Attempt ${attempt} failed, retrying: ${describeError(stepError)}`,
+              },
+            }));
+          },
+          onUsage: (_, usage) => recordUsage(usage),
+          onStepComplete: (step, output, { validation, cached, usage }) => {
+            const input = runStepsById.get(step.id)?.input ?? step.input;
+            const image = createGeneratedImage(step, output, {
+              providerId: settings.providerId,
+              model: settings.model,
+              input,
+              inputImageId: refineFrom ? refineFrom.inputImageId : imageIds[input],
+              references: selectReferences(step, item.references).map(({ id, label }) => ({ id, label })),
+              refinedFromId: refineFrom?.id,
+              validation,
+              cached,
+              usage,
+            });
+            imageIds[step.id] = image.id;
+            updateItem(item.id, (current) => ({
+              images: [...current.images.filter((candidate) => candidate.stepId !== step.id), image],
+              versions: { ...current.versions, [step.id]: [...(current.versions[step.id] ?? []), image] },
+            }));
+          },
+        });
+        const hasFailures = Object.keys(failures).length > 0;
+        updateItem(item.id, (current) => ({
+          // A targeted run leaves the item's other missing steps as they were, still to be run.
+          status: paused
+            ? 'paused'
+            : hasFailures
+              ? 'failed'
+              : isComplete(current)
+                ? 'done'
+                : item.status === 'pending'
+                  ? 'pending'
+                  : 'paused',
+          // Say why the remaining steps did not start; resuming gives the run a fresh budget.
+          stepMessages: budgetExceeded
+            ? {
+                ...current.stepMessages,
+                ...Object.fromEntries(
+                  Object.entries(current.stepStatuses)
+                    .filter(([, status]) => status === 'queued')
+                    .map(([stepId]) => [stepId, 'Paused: the run budget is used up. Resume to continue.']),
+                ),
+              }
+            : current.stepMessages,
+        }));
+      } catch (err) {
+        if (controller.signal.aborted) {
+          updateItem(item.id, { status: 'cancelled' });
+        } else if (err instanceof BudgetExceededError) {
+          // Nothing was sent, so the item can start once the budget allows it.
+          updateItem(item.id, { status: 'paused' });
+          throw err;
+        } else {
+          console.error('Image processing failed:', err);
+          updateItem(item.id, { status: 'failed' });
+          throw err;
+        }
+      } finally {
+        abortControllerRef.current = null;
+      }
+    },
+    [pipeline, providerSettings, concurrency, cache, budget, onUsage, updateItem],
+  );
+
+  /**
+   * Works through every pending or paused item in queue order until the queue is empty,
+   * paused or cancelled.
+   * @returns The items as they stand once the queue stops.
+   */
+  const processQueue = useCallback(async (): Promise<BatchItem[]> => {
+    if (queueStateRef.current === 'running') {
+      return itemsRef.current;
+    }
+    pauseControllerRef.current = new AbortController();
+    setQueueState('running');
+    const attempted = new Set<string>();
+    try {
+      for (;;) {
+        const next = itemsRef.current.find(
+          (item) => !attempted.has(item.id) && (item.status === 'pending' || item.status === 'paused'),
+        );
+        if (!next || pauseControllerRef.current.signal.aborted) {
+          break;
+        }
+        attempted.add(next.id);
+        await runItem(next);
+        if (itemsRef.current.find((item) => item.id === next.id)?.status === 'cancelled') {
+          break;
+        }
+      }
+    } finally {
+      setQueueState(pauseControllerRef.current.signal.aborted ? 'paused' : 'idle');
+    }
+    return itemsRef.current;
+  }, [runItem, setQueueState]);
+
+  /**
+   * Stops starting new steps; steps already in flight finish and the queue can be resumed later.
+   */
+  const pauseQueue = useCallback(() => {
+    pauseControllerRef.current?.abort();
+  }, []);
+
+  const cancelQueue = useCallback(() => {
+    pauseControllerRef.current?.abort();
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Marks items to run again from scratch with the current pipeline and starts the queue.
+   * Their existing outputs are kept as earlier versions of each step.
+   */
+  const restartItems = useCallback(
+    (ids: string[]) => {
+      ids.forEach((id) => updateItem(id, { status: 'pending', runSteps: [] }));
+      return processQueue();
+    },
+    [updateItem, processQueue],
+  );
+
+  /**
+   * Continues an item from its first incomplete step.
+   */
+  const resumeItem = useCallback(
+    (id: string) => {
+      updateItem(id, { status: 'paused' });
+      return processQueue();
+    },
+    [updateItem, processQueue],
+  );
+
+  /**
+   * Runs `work` on its own, outside the queue, unless the queue is already running.
+   */
+  const runExclusive = useCallback(
+    async (work: () => Promise<void>): Promise<BatchItem[]> => {
+      if (queueStateRef.current === 'running') {
+        return itemsRef.current;
+      }
+      pauseControllerRef.current = new AbortController();
+      setQueueState('running');
+      try {
+        await work();
+      } finally {
+        setQueueState('idle');
+      }
+      return itemsRef.current;
+    },
+    [setQueueState],
+  );
+
+  const findItem = (id: string) => itemsRef.current.find((candidate) => candidate.id === id);
+
+  /**
+   * Generates a new version of one step from its current input, optionally with an edited prompt.
+   * An edited prompt replaces the step's prompt in the item's run, so later resumes and re-runs use it too.
+   */
+  const regenerateStep = useCallback(
+    (id: string, stepId: string, prompt?: string) =>
+      runExclusive(async () => {
+        const item = findItem(id);
+        if (!item) {
+          return;
+        }
+        if (prompt === undefined) {
+          // Regenerating with an unchanged prompt asks for a new take, which the cache would only repeat.
+          await runItem(item, { targetStepIds: [stepId], bypassCache: true });
+        } else {
+          const runSteps = item.runSteps.map((step) => (step.id === stepId ? { ...step, prompt } : step));
+          await runItem({ ...item, runSteps }, { targetStepIds: [stepId] });
+        }
+      }),
+    [runExclusive, runItem],
+  );
+
+  /**
+   * Applies a follow-up instruction to an existing version, producing a new version of its step.
+   */
+  const refineVersion = useCallback(
+    (id: string, version: GeneratedImage, instruction: string) =>
+      runExclusive(async () => {
+        const item = findItem(id);
+        if (item) {
+          await runItem(item, {
+            targetStepIds: [version.stepId],
+            prompts: { [version.stepId]: instruction },
+            refineFrom: version,
+          });
+        }
+      }),
+    [runExclusive, runItem],
+  );
+
+  /**
+   * Repaints the masked region of a version, producing a new version of its step in which
+   * everything outside the mask is unchanged (exactly so for opaque pixels).
+   * @param mask PNG data URL of the mask; white marks the region to change.
+   */
+  const inpaintVersion = useCallback(
+    (id: string, version: GeneratedImage, maskSrc: string, instruction: string) =>
+      runExclusive(async () => {
+        const item = findItem(id);
+        if (!item) {
+          return;
+        }
+        const settings = item.providerSettings ?? providerSettings;
+        const setStatus = (status: StepStatus, message = '') =>
+          updateItem(id, (current) => ({
+            stepStatuses: { ...current.stepStatuses, [version.stepId]: status },
+            stepMessages: { ...current.stepMessages, [version.stepId]: message },
+          }));
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setStatus('running');
+        try {
+          const { image: output, usage } = await inpaintImage({
+            provider: getImageProvider(settings.providerId),
+            model: settings.model,
+            image: parseDataUrl(version.src),
+            mask: parseDataUrl(maskSrc),
+            prompt: instruction,
+            signal: controller.signal,
+            onRetry: (attempt, error) => setStatus('running', `Attempt ${attempt} failed, retrying: ${describeError(error)}`),
+            onUsage: (call) => {
+              updateItem(id, (current) => ({ usage: addModelUsage(current.usage, settings.model, call) }));
+              onUsage?.(settings.model, call);
+            },
+          });
+          const image: GeneratedImage = {
+            ...version,
+            id: uuidv4(),
+            src: `data:${output.mimeType};base64,${output.base64}`,
+            prompt: instruction,
+            refinedFromId: version.id,
+            maskSrc,
+            usage,
+            cached: undefined,
+            providerId: settings.providerId,
+            model: settings.model,
+            createdAt: new Date().toISOString(),
+            validation: undefined,
+          };
+          updateItem(id, (current) => ({
+            images: [...current.images.filter((candidate) => candidate.stepId !== version.stepId), image],
+            versions: { ...current.versions, [version.stepId]: [...(current.versions[version.stepId] ?? []), image] },
+          }));
+          setStatus('done');
+        } catch (err) {
+          // The previous version stays in place, so the card only reports the failure.
+          setStatus(controller.signal.aborted ? 'cancelled' : 'failed', controller.signal.aborted ? '' : describeError(err));
+        } finally {
+          abortControllerRef.current = null;
+        }
+      }),
+    [runExclusive, providerSettings, onUsage, updateItem],
+  );
+
+  /**
+   * Re-runs every step whose output chained off a version that is no longer preferred.
+   */
+  const rerunStaleSteps = useCallback(
+    (id: string) =>
+      runExclusive(async () => {
+        const item = findItem(id);
+        const staleStepIds = item ? findStaleSteps(item.runSteps, item.images, item.references) : [];
+        if (item && staleStepIds.length > 0) {
+          await runItem(item, { targetStepIds: staleStepIds });
+        }
+      }),
+    [runExclusive, runItem],
+  );
+
+  /**
+   * Makes a version the one that is exported and that downstream steps chain off.
+   */
+  const selectVersion = useCallback(
+    (id: string, version: GeneratedImage) => {
+      updateItem(id, (current) => ({
+        images: [...current.images.filter((image) => image.stepId !== version.stepId), version],
+      }));
+    },
+    [updateItem],
+  );
+
+  return {
+    items,
+    queueState,
+    updateItem,
+    addFiles,
+    addProject,
+    removeItem,
+    clearItems,
+    processQueue,
+    pauseQueue,
+    cancelQueue,
+    restartItems,
+    resumeItem,
+    regenerateStep,
+    refineVersion,
+    inpaintVersion,
+    rerunStaleSteps,
+    selectVersion,
+  };
+};
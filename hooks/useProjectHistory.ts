@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { StorageEstimate, getStorageEstimate, listProjects } from '../services/projectStore';
+
+/**
+ * Keeps the list of saved projects and the storage estimate in React state.
+ * Call `refresh` after anything that adds, changes or removes a project.
+ */
+export const useProjectHistory = () => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+      setStorageEstimate(await getStorageEstimate());
+    } catch (err) {
+      console.error('Failed to load project history:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { projects, storageEstimate, refresh };
+};
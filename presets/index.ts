@@ -0,0 +1,15 @@
+import { Pipeline } from '../types';
+import { DEFAULT_PIPELINE } from '../constants';
+import { parsePipeline } from '../services/pipelineService';
+import aPose from './a-pose.json';
+import threeQuarterViews from './three-quarter-views.json';
+import expressionSheet from './expression-sheet.json';
+
+/**
+ * Pipelines offered in the editor's preset list. The bundled presets are plain pipeline JSON,
+ * the same format as Export JSON, so they can be shared and imported like any other pipeline.
+ */
+export const PIPELINE_PRESETS: Pipeline[] = [
+  DEFAULT_PIPELINE,
+  ...[aPose, threeQuarterViews, expressionSheet].map((preset) => parsePipeline(preset)),
+];
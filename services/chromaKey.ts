@@ -0,0 +1,152 @@
+import { GeneratedImage } from '../types';
+import { createCanvas, loadImage } from '../utils/imageUtils';
+
+export interface ChromaKeyOptions {
+  /** Background colour to remove, as a `#rrggbb` hex string. */
+  keyColor: string;
+  /** Chroma distance (0-1) below which pixels become fully transparent. */
+  tolerance: number;
+  /** Width (0-1) of the ramp from transparent to opaque above the tolerance. */
+  softness: number;
+  /** How strongly (0-1) key-coloured light bleeding onto the subject is neutralised. */
+  spillSuppression: number;
+  /** Crop the result to the bounding box of the remaining subject. */
+  trim: boolean;
+}
+
+export const DEFAULT_CHROMA_KEY_OPTIONS: ChromaKeyOptions = {
+  keyColor: '#00ff00',
+  tolerance: 0.15,
+  softness: 0.1,
+  spillSuppression: 1,
+  trim: true,
+};
+
+export interface PixelBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ChromaKeyResult {
+  /** PNG data URL of the keyed image. */
+  src: string;
+  width: number;
+  height: number;
+  /** Where the subject sits in the untrimmed image, or null if nothing survived keying. */
+  bounds: PixelBounds | null;
+}
+
+/** Pixels with alpha at or below this value are ignored when computing subject bounds. */
+const BOUNDS_ALPHA_THRESHOLD = 8;
+
+/**
+ * Parses a `#rgb` or `#rrggbb` colour into its channels.
+ */
+export const parseHexColor = (hex: string): [number, number, number] => {
+  let value = hex.replace(/^#/, '');
+  if (value.length === 3) {
+    value = value.split('').map((channel) => channel + channel).join('');
+  }
+  if (!/^[0-9a-f]{6}$/i.test(value)) {
+    throw new Error(`Invalid colour "${hex}". Expected a hex value such as #00ff00.`);
+  }
+  const number = parseInt(value, 16);
+  return [(number >> 16) & 0xff, (number >> 8) & 0xff, number & 0xff];
+};
+
+/**
+ * Chroma (Cb, Cr) of an RGB colour, as in BT.601 YCbCr. Ignoring luma keeps shadows on the
+ * background keyable.
+ */
+const toChroma = (r: number, g: number, b: number): [number, number] => [
+  128 - 0.168736 * r - 0.331264 * g + 0.5 * b,
+  128 + 0.5 * r - 0.418688 * g - 0.081312 * b,
+];
+
+/**
+ * Keys out the background of raw RGBA pixels in place: computes an alpha matte from the chroma
+ * distance to the key colour, then pulls the key colour's dominant channel down to the level of
+ * the other two on the remaining pixels to remove colour spill.
+ * @param pixels RGBA pixel data, modified in place.
+ * @param width Image width in pixels.
+ * @param height Image height in pixels.
+ * @param options Key colour, tolerance, softness and spill settings.
+ * @returns The bounding box of the pixels left visible, or null if the whole image was keyed out.
+ */
+export const applyChromaKey = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: ChromaKeyOptions,
+): PixelBounds | null => {
+  const key = parseHexColor(options.keyColor);
+  const [keyCb, keyCr] = toChroma(...key);
+  const dominant = key.indexOf(Math.max(...key));
+  const [otherA, otherB] = [0, 1, 2].filter((channel) => channel !== dominant);
+  const softness = Math.max(options.softness, 1e-6);
+
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const [cb, cr] = toChroma(pixels[i], pixels[i + 1], pixels[i + 2]);
+      const distance = Math.hypot(cb - keyCb, cr - keyCr) / 255;
+      const ramp = Math.min(1, Math.max(0, (distance - options.tolerance) / softness));
+      const matte = ramp * ramp * (3 - 2 * ramp); // smoothstep
+      const alpha = Math.round(pixels[i + 3] * matte);
+      pixels[i + 3] = alpha;
+
+      if (alpha === 0) {
+        continue;
+      }
+
+      const limit = Math.max(pixels[i + otherA], pixels[i + otherB]);
+      if (pixels[i + dominant] > limit) {
+        pixels[i + dominant] -= (pixels[i + dominant] - limit) * options.spillSuppression;
+      }
+
+      if (alpha > BOUNDS_ALPHA_THRESHOLD) {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Removes the green-screen (or other key colour) background from a generated image.
+ * @param image The generated image to key.
+ * @param options Key colour, tolerance, softness, spill and trim settings.
+ * @returns A transparent PNG of the subject, optionally trimmed to its bounding box.
+ */
+export const chromaKeyImage = async (
+  image: GeneratedImage,
+  options: ChromaKeyOptions = DEFAULT_CHROMA_KEY_OPTIONS,
+): Promise<ChromaKeyResult> => {
+  const source = await loadImage(image.src);
+  const { canvas, context } = createCanvas(source.naturalWidth, source.naturalHeight, { willReadFrequently: true });
+
+  context.drawImage(source, 0, 0);
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  const bounds = applyChromaKey(imageData.data, canvas.width, canvas.height, options);
+
+  if (options.trim && bounds) {
+    canvas.width = bounds.width;
+    canvas.height = bounds.height;
+    context.putImageData(imageData, -bounds.x, -bounds.y);
+  } else {
+    context.putImageData(imageData, 0, 0);
+  }
+
+  return { src: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height, bounds };
+};
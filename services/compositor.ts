@@ -0,0 +1,228 @@
+import { GeneratedImage } from '../types';
+import { ChromaKeyOptions, chromaKeyImage } from './chromaKey';
+import { toFileSlug } from '../utils/fileUtils';
+import { createCanvas, loadImage } from '../utils/imageUtils';
+
+/**
+ * One generated image with its background keyed out, trimmed to the subject and scaled so
+ * every subject has the same height. The bottom edge of the canvas is the subject's feet.
+ */
+export interface NormalizedFrame {
+  name: string;
+  canvas: HTMLCanvasElement;
+  /** Size of the subject's bounding box in the original image. */
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+export interface FramePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PackedLayout {
+  placements: FramePlacement[];
+  width: number;
+  height: number;
+}
+
+export interface TurnaroundSheetOptions {
+  padding: number;
+  /** Draw each frame's name under it. */
+  showLabels: boolean;
+  /** CSS colour to fill the sheet with, or null for a transparent background. */
+  background: string | null;
+}
+
+/**
+ * Texture atlas description in TexturePacker's "JSON (Hash)" format, readable by most engines.
+ */
+export interface AtlasFrameMap {
+  frames: Record<
+    string,
+    {
+      frame: { x: number; y: number; w: number; h: number };
+      rotated: boolean;
+      trimmed: boolean;
+      spriteSourceSize: { x: number; y: number; w: number; h: number };
+      sourceSize: { w: number; h: number };
+    }
+  >;
+  meta: {
+    app: string;
+    version: string;
+    image: string;
+    format: string;
+    size: { w: number; h: number };
+    scale: string;
+  };
+}
+
+const LABEL_FONT_SIZE = 16;
+const LABEL_GAP = 8;
+
+/**
+ * Keys, trims and rescales generated images so their subjects share a common height.
+ * @param images The images to normalise, in display order.
+ * @param subjectHeight Height in pixels every subject is scaled to.
+ * @param chromaKeyOptions Settings used to separate the subject from the green screen.
+ * @returns One frame per image that still has a visible subject after keying.
+ */
+export const normalizeImages = async (
+  images: GeneratedImage[],
+  subjectHeight: number,
+  chromaKeyOptions: ChromaKeyOptions,
+): Promise<NormalizedFrame[]> => {
+  const frames: NormalizedFrame[] = [];
+  for (const image of images) {
+    const keyed = await chromaKeyImage(image, { ...chromaKeyOptions, trim: true });
+    if (!keyed.bounds) {
+      continue; // Nothing left after keying; the frame would be empty.
+    }
+    const scale = subjectHeight / keyed.height;
+    const { canvas, context } = createCanvas(keyed.width * scale, subjectHeight);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(await loadImage(keyed.src), 0, 0, canvas.width, canvas.height);
+    frames.push({ name: image.name, canvas, sourceWidth: keyed.width, sourceHeight: keyed.height });
+  }
+  return frames;
+};
+
+/**
+ * Places rectangles on shelves: left to right until the row would exceed `maxWidth`, then on a
+ * new row below. Rectangles are taken tallest first to keep shelves tight; placements are
+ * returned in the input order.
+ * @param sizes Rectangle sizes to place.
+ * @param maxWidth Maximum width of the packed area.
+ * @param padding Gap between rectangles and around the edge.
+ * @returns The position of each rectangle and the overall packed size.
+ */
+export const packShelves = (
+  sizes: { width: number; height: number }[],
+  maxWidth: number,
+  padding: number,
+): PackedLayout => {
+  const placements: FramePlacement[] = new Array(sizes.length);
+  const order = sizes.map((_, index) => index).sort((a, b) => sizes[b].height - sizes[a].height);
+  let x = padding;
+  let y = padding;
+  let shelfHeight = 0;
+  let width = 0;
+
+  for (const index of order) {
+    const { width: w, height: h } = sizes[index];
+    if (x > padding && x + w + padding > maxWidth) {
+      x = padding;
+      y += shelfHeight + padding;
+      shelfHeight = 0;
+    }
+    placements[index] = { x, y, width: w, height: h };
+    x += w + padding;
+    shelfHeight = Math.max(shelfHeight, h);
+    width = Math.max(width, x);
+  }
+
+  return { placements, width, height: sizes.length > 0 ? y + shelfHeight + padding : 0 };
+};
+
+/**
+ * Lays normalised frames out side by side on a shared ground line, optionally labelled.
+ * @param frames Frames from normalizeImages.
+ * @param options Padding, labels and background.
+ * @returns The sheet as a canvas.
+ */
+export const renderTurnaroundSheet = (
+  frames: NormalizedFrame[],
+  options: TurnaroundSheetOptions,
+): HTMLCanvasElement => {
+  const { padding, showLabels, background } = options;
+  const subjectHeight = Math.max(0, ...frames.map((frame) => frame.canvas.height));
+  const labelSpace = showLabels ? LABEL_GAP + LABEL_FONT_SIZE : 0;
+  const width = frames.reduce((total, frame) => total + frame.canvas.width + padding, padding);
+  const groundY = padding + subjectHeight;
+  const { canvas, context } = createCanvas(width, groundY + labelSpace + padding);
+
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  context.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+  context.beginPath();
+  context.moveTo(padding / 2, groundY + 0.5);
+  context.lineTo(canvas.width - padding / 2, groundY + 0.5);
+  context.stroke();
+
+  context.font = `${LABEL_FONT_SIZE}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  context.fillStyle = '#1f2937';
+
+  let x = padding;
+  for (const frame of frames) {
+    context.drawImage(frame.canvas, x, groundY - frame.canvas.height);
+    if (showLabels) {
+      context.fillText(frame.name, x + frame.canvas.width / 2, groundY + LABEL_GAP, frame.canvas.width + padding);
+    }
+    x += frame.canvas.width + padding;
+  }
+
+  return canvas;
+};
+
+/**
+ * Packs normalised frames into a sprite atlas and describes it with a TexturePacker-style frame map.
+ * @param frames Frames from normalizeImages.
+ * @param maxWidth Maximum atlas width in pixels.
+ * @param padding Gap between frames.
+ * @param imageName File name recorded in the frame map's `meta.image`.
+ * @returns The atlas canvas and its frame map.
+ */
+export const renderSpriteAtlas = (
+  frames: NormalizedFrame[],
+  maxWidth: number,
+  padding: number,
+  imageName: string,
+): { canvas: HTMLCanvasElement; frameMap: AtlasFrameMap } => {
+  const layout = packShelves(
+    frames.map((frame) => ({ width: frame.canvas.width, height: frame.canvas.height })),
+    maxWidth,
+    padding,
+  );
+  const { canvas, context } = createCanvas(layout.width, layout.height);
+  const frameMap: AtlasFrameMap = {
+    frames: {},
+    meta: {
+      app: 'Gemini Image Studio',
+      version: '1.0',
+      image: imageName,
+      format: 'RGBA8888',
+      size: { w: canvas.width, h: canvas.height },
+      scale: '1',
+    },
+  };
+
+  frames.forEach((frame, index) => {
+    const { x, y, width, height } = layout.placements[index];
+    context.drawImage(frame.canvas, x, y);
+    // Step names need not be unique, so later frames with a taken name get a numbered key.
+    const slug = toFileSlug(frame.name);
+    let key = `${slug}.png`;
+    for (let copy = 2; key in frameMap.frames; copy++) {
+      key = `${slug}_${copy}.png`;
+    }
+    frameMap.frames[key] = {
+      frame: { x, y, w: width, h: height },
+      rotated: false,
+      // Each frame is the whole sprite: it was trimmed and rescaled before packing, so there is no
+      // untrimmed source for an engine to restore an offset into.
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+      sourceSize: { w: width, h: height },
+    };
+  });
+
+  return { canvas, frameMap };
+};
@@ -0,0 +1,141 @@
+import { TokenUsage, ValidationCheckResult } from '../types';
+
+export type ImageErrorKind = 'safety' | 'quota' | 'network' | 'no-image' | 'unknown';
+
+/**
+ * Base class for failures reported by an image provider.
+ * `retryable` marks errors that may succeed if the same request is sent again later.
+ */
+export class ImageGenerationError extends Error {
+  readonly kind: ImageErrorKind;
+  readonly retryable: boolean;
+  /** Tokens the provider billed for the failed request, e.g. the prompt of a blocked one. */
+  readonly usage?: TokenUsage;
+
+  constructor(
+    kind: ImageErrorKind,
+    message: string,
+    retryable: boolean,
+    options?: { cause?: unknown; usage?: TokenUsage },
+  ) {
+    super(message, options);
+    this.name = 'ImageGenerationError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.usage = options?.usage;
+  }
+}
+
+/**
+ * The prompt or the generated image was blocked by the model's safety filters.
+ */
+export class SafetyBlockError extends ImageGenerationError {
+  readonly finishReason?: string;
+  readonly promptFeedback?: unknown;
+
+  constructor(message: string, details: { finishReason?: string; promptFeedback?: unknown; usage?: TokenUsage } = {}) {
+    super('safety', message, false, { usage: details.usage });
+    this.name = 'SafetyBlockError';
+    this.finishReason = details.finishReason;
+    this.promptFeedback = details.promptFeedback;
+  }
+}
+
+/**
+ * The API rejected the request for rate or quota reasons (HTTP 429).
+ */
+export class QuotaExceededError extends ImageGenerationError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('quota', message, true, options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * A connection problem or a 5xx response that is likely to go away on its own.
+ */
+export class TransientNetworkError extends ImageGenerationError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('network', message, true, options);
+    this.name = 'TransientNetworkError';
+  }
+}
+
+/**
+ * The model answered, but the response did not contain an image part.
+ */
+export class NoImagePartError extends ImageGenerationError {
+  readonly finishReason?: string;
+
+  constructor(message: string, finishReason?: string, usage?: TokenUsage) {
+    super('no-image', message, false, { usage });
+    this.name = 'NoImagePartError';
+    this.finishReason = finishReason;
+  }
+}
+
+/**
+ * A generated image failed one or more of its step's quality checks.
+ */
+export class OutputValidationError extends Error {
+  readonly checks: ValidationCheckResult[];
+
+  constructor(checks: ValidationCheckResult[]) {
+    const failed = checks.filter((check) => !check.passed).map((check) => check.message);
+    super(`Output failed quality checks: ${failed.join('; ')}`);
+    this.name = 'OutputValidationError';
+    this.checks = checks;
+  }
+}
+
+/**
+ * A run was refused, or paused part way, because it would go over its call or token budget.
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * An uploaded file is too large or not an image format the app accepts.
+ */
+export class UploadRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+/**
+ * A replayed Gemini request has no recorded response in the fixture, usually because a prompt,
+ * model or input image changed since the fixture was recorded.
+ */
+export class UnmatchedGeminiRequestError extends Error {
+  /** The request as it would be recorded, for comparing against the fixture. */
+  readonly request: unknown;
+
+  constructor(message: string, request: unknown) {
+    super(message);
+    this.name = 'UnmatchedGeminiRequestError';
+    this.request = request;
+  }
+}
+
+/**
+ * Whether an error was caused by aborting a request through an AbortSignal.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Whether an error is worth retrying with backoff.
+ */
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof ImageGenerationError && error.retryable;
+
+/**
+ * Formats any thrown value as a short message for display.
+ */
+export const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
@@ -0,0 +1,165 @@
+import { GeneratedImage, Pipeline, ValidationReport } from '../types';
+import { SOURCE_INPUT_ID } from '../constants';
+import { base64ToBytes, extensionForMimeType, parseDataUrl, sniffImageMimeType, toFileSlug } from '../utils/fileUtils';
+import { sha256Hex } from '../utils/hash';
+import { createProvenance, embedProvenance } from './provenance';
+import { ZipEntry, createZip } from '../utils/zip';
+
+export interface ManifestStep {
+  stepId: string;
+  name: string;
+  description: string;
+  prompt: string;
+  /** Id of the input step, or SOURCE_INPUT_ID for the original upload. */
+  inputStepId: string;
+  /**
+   * Archive path of the input version this output was generated from, or an empty string if that
+   * version is not the one exported for its step.
+   */
+  inputFile: string;
+  /** Id of the input version this output was generated from, if it was recorded. */
+  inputImageId?: string;
+  providerId: string;
+  model: string;
+  createdAt: string;
+  file: string;
+  mimeType: string;
+  sha256: string;
+  /** Archive path of the chroma-keyed version, if one was included. */
+  transparentFile?: string;
+  /** Outcome of the step's quality checks, if it had any. */
+  validation?: ValidationReport;
+}
+
+export interface RunManifest {
+  version: 1;
+  exportedAt: string;
+  pipeline: { id: string; name: string };
+  source: { file: string; originalName: string; mimeType: string; sha256: string };
+  steps: ManifestStep[];
+}
+
+export interface RunArchiveOptions {
+  source: File;
+  pipeline: Pipeline;
+  /** Generated images, in the order they should be numbered in the archive. */
+  images: GeneratedImage[];
+  /** Optional chroma-keyed PNG data URLs keyed by image id, stored under `transparent/`. */
+  transparentImages?: Record<string, string>;
+}
+
+/**
+ * Decodes an image data URL, trusting the file's magic bytes over the MIME type in the URL.
+ */
+const decodeImage = (src: string): { bytes: Uint8Array; mimeType: string } => {
+  const { base64, mimeType } = parseDataUrl(src);
+  const bytes = base64ToBytes(base64);
+  return { bytes, mimeType: sniffImageMimeType(bytes) ?? mimeType };
+};
+
+/**
+ * Builds the files for one run: the source, numbered outputs, transparent versions and
+ * `manifest.json`. Outputs carry their provenance as PNG text chunks or JPEG XMP.
+ * Entry names are prefixed with `folder`; paths in the manifest are relative to it.
+ */
+export const createRunEntries = async (
+  { source, pipeline, images, transparentImages = {} }: RunArchiveOptions,
+  folder = '',
+): Promise<ZipEntry[]> => {
+  const sourceBytes = new Uint8Array(await source.arrayBuffer());
+  const sourceMimeType = sniffImageMimeType(sourceBytes) ?? source.type;
+  const sourceFile = `source.${extensionForMimeType(sourceMimeType)}`;
+  const sourceSha256 = await sha256Hex(sourceBytes);
+  const entries: ZipEntry[] = [{ name: sourceFile, data: sourceBytes }];
+  const filesByStepId: Record<string, string> = { [SOURCE_INPUT_ID]: sourceFile };
+  const filesByImageId: Record<string, string> = {};
+  const steps: ManifestStep[] = [];
+
+  const numbered = images.map((image, index) => {
+    const decoded = decodeImage(image.src);
+    decoded.bytes = embedProvenance(decoded.bytes, createProvenance(image, sourceSha256));
+    const stem = `${String(index + 1).padStart(2, '0')}_${toFileSlug(image.name)}`;
+    const file = `${stem}.${extensionForMimeType(decoded.mimeType)}`;
+    filesByStepId[image.stepId] = file;
+    filesByImageId[image.id] = file;
+    return { image, decoded, stem, file };
+  });
+
+  for (const { image, decoded, stem, file } of numbered) {
+    entries.push({ name: file, data: decoded.bytes, modified: new Date(image.createdAt) });
+
+    let transparentFile: string | undefined;
+    if (transparentImages[image.id]) {
+      transparentFile = `transparent/${stem}.png`;
+      const transparent = decodeImage(transparentImages[image.id]).bytes;
+      entries.push({ name: transparentFile, data: embedProvenance(transparent, createProvenance(image, sourceSha256)) });
+    }
+
+    steps.push({
+      stepId: image.stepId,
+      name: image.name,
+      description: image.description,
+      prompt: image.prompt,
+      inputStepId: image.input,
+      // Images saved before versions were tracked have no inputImageId and chained off the preferred input.
+      inputFile:
+        image.inputImageId === undefined ? (filesByStepId[image.input] ?? '') : (filesByImageId[image.inputImageId] ?? ''),
+      inputImageId: image.inputImageId,
+      providerId: image.providerId,
+      model: image.model,
+      createdAt: image.createdAt,
+      file,
+      mimeType: decoded.mimeType,
+      sha256: await sha256Hex(decoded.bytes),
+      transparentFile,
+      validation: image.validation,
+    });
+  }
+
+  const manifest: RunManifest = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    pipeline: { id: pipeline.id, name: pipeline.name },
+    source: {
+      file: sourceFile,
+      originalName: source.name,
+      mimeType: sourceMimeType,
+      sha256: sourceSha256,
+    },
+    steps,
+  };
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  return entries.map((entry) => ({ ...entry, name: folder + entry.name }));
+};
+
+/**
+ * Packs a finished run into a single ZIP: the original upload, every generated image with the
+ * extension matching its real format, optional transparent versions, and a `manifest.json`
+ * that traces each file back to its prompt, input, model and source image.
+ * @param options The source file, pipeline and generated images to archive.
+ * @returns The ZIP archive.
+ */
+export const createRunArchive = async (options: RunArchiveOptions): Promise<Blob> =>
+  createZip(await createRunEntries(options));
+
+/**
+ * Packs several runs into one ZIP with a folder per source image, each laid out like
+ * {@link createRunArchive} with its own manifest.
+ * @param runs One entry per source image, in queue order.
+ * @returns The ZIP archive.
+ */
+export const createBatchArchive = async (runs: RunArchiveOptions[]): Promise<Blob> => {
+  const usedFolders = new Set<string>();
+  const entries: ZipEntry[] = [];
+  for (const run of runs) {
+    const stem = toFileSlug(run.source.name.replace(/\.[^.]+$/, ''));
+    let folder = stem;
+    for (let suffix = 2; usedFolders.has(folder); suffix++) {
+      folder = `${stem}_${suffix}`;
+    }
+    usedFolders.add(folder);
+    entries.push(...(await createRunEntries(run, `${folder}/`)));
+  }
+  return createZip(entries);
+};
@@ -1,6 +1,22 @@
 
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
-import { ImagePart } from '../types';
+import { ApiError, FinishReason, GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { ImagePart, ImageProvider, LabelledImage, ProviderImage, StepImage, TokenUsage } from '../types';
+import {
+  ImageGenerationError,
+  NoImagePartError,
+  QuotaExceededError,
+  SafetyBlockError,
+  TransientNetworkError,
+  UnmatchedGeminiRequestError,
+  isAbortError,
+} from './errors';
+import { base64ToBytes } from '../utils/fileUtils';
+import { sha256Hex } from '../utils/hash';
+
+/**
+ * Image-capable Gemini models offered in the model picker. The first entry is the default.
+ */
+export const GEMINI_IMAGE_MODELS = ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'];
 
 /**
  * Initializes the Gemini API client.
@@ -16,54 +32,329 @@ const getGeminiClient = () => {
 };
 
 /**
- * Sends an image and a text prompt to the Gemini 2.5 Flash Image model for editing.
- * @param base64Image The base64 encoded string of the input image.
- * @param mimeType The MIME type of the input image (e.g., 'image/png', 'image/jpeg').
- * @param prompt The text instruction for the image editing.
- * @returns A promise that resolves to the base64 encoded string of the edited image.
+ * One image generation request: the model and the parts of the single user turn.
  */
-export const editImage = async (
-  base64Image: string,
-  mimeType: string,
-  prompt: string,
-): Promise<string> => {
-  const ai = getGeminiClient(); // Instantiate client right before use
+export interface GeminiRequest {
+  model: string;
+  parts: (ImagePart | { text: string })[];
+  signal?: AbortSignal;
+}
 
-  const imagePart: ImagePart = {
-    inlineData: {
-      data: base64Image,
-      mimeType: mimeType,
-    },
-  };
-
-  const textPart = {
-    text: prompt,
-  };
+/**
+ * Sends requests to Gemini. Every call in this module goes through the current transport, so
+ * requests can be recorded to fixtures and replayed offline.
+ */
+export interface GeminiTransport {
+  generateContent(request: GeminiRequest): Promise<GenerateContentResponse>;
+}
 
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+/**
+ * Calls the Gemini API. This is the transport unless another one is set.
+ */
+export const liveGeminiTransport: GeminiTransport = {
+  generateContent: ({ model, parts, signal }) =>
+    getGeminiClient().models.generateContent({
+      model,
       contents: {
-        parts: [imagePart, textPart],
+        parts,
       },
       config: {
         responseModalities: [Modality.IMAGE],
+        abortSignal: signal,
       },
-    });
+    }),
+};
+
+let transport: GeminiTransport = liveGeminiTransport;
+
+/**
+ * Replaces the transport every Gemini call goes through, e.g. with a replay of recorded fixtures.
+ * @param next The transport to use; omit it to go back to the live API.
+ */
+export const setGeminiTransport = (next: GeminiTransport = liveGeminiTransport): void => {
+  transport = next;
+};
+
+/**
+ * A request as stored in a fixture. Images are identified by the SHA-256 of their bytes, which
+ * keeps fixtures small and makes chained inputs comparable with the outputs they came from.
+ */
+export interface RecordedGeminiRequest {
+  model: string;
+  parts: ({ text: string } | { image: { mimeType: string; sha256: string } })[];
+}
+
+/**
+ * A recorded request with the response it got, or the error it failed with.
+ */
+export interface GeminiExchange {
+  request: RecordedGeminiRequest;
+  /** The response body as returned by the API. */
+  response?: Record<string, unknown>;
+  error?: { message: string; status?: number };
+}
+
+/**
+ * The contents of a fixture file: exchanges in the order they were recorded.
+ */
+export interface GeminiFixture {
+  version: 1;
+  exchanges: GeminiExchange[];
+}
+
+/**
+ * Describes a request the way fixtures record and match it.
+ */
+export const describeGeminiRequest = async ({ model, parts }: GeminiRequest): Promise<RecordedGeminiRequest> => ({
+  model,
+  parts: await Promise.all(
+    parts.map(async (part) =>
+      'inlineData' in part
+        ? { image: { mimeType: part.inlineData.mimeType, sha256: await sha256Hex(base64ToBytes(part.inlineData.data)) } }
+        : { text: part.text },
+    ),
+  ),
+});
+
+/**
+ * Wraps a transport so every completed request is appended to `fixture`, including API errors.
+ * Aborted requests are not recorded.
+ * @param inner The transport that really sends the requests, usually the live one.
+ * @param fixture The fixture to record into; save it once the run is over.
+ */
+export const createRecordingTransport = (inner: GeminiTransport, fixture: GeminiFixture): GeminiTransport => ({
+  generateContent: async (request) => {
+    const recorded = await describeGeminiRequest(request);
+    try {
+      const response = await inner.generateContent(request);
+      const { sdkHttpResponse, ...body } = response;
+      fixture.exchanges.push({ request: recorded, response: JSON.parse(JSON.stringify(body)) });
+      return response;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        fixture.exchanges.push({
+          request: recorded,
+          error: {
+            message: error instanceof Error ? error.message : String(error),
+            status: error instanceof ApiError ? error.status : undefined,
+          },
+        });
+      }
+      throw error;
+    }
+  },
+});
+
+/**
+ * A transport that answers from a fixture instead of the network.
+ */
+export interface GeminiReplayTransport extends GeminiTransport {
+  /** Requests that had no recorded exchange, in the order they were made. */
+  readonly unmatched: UnmatchedGeminiRequestError[];
+}
+
+const summarizeRecordedRequest = ({ model, parts }: RecordedGeminiRequest): string =>
+  [
+    model,
+    ...parts.map((part) =>
+      'text' in part ? JSON.stringify(part.text.length > 80 ? `${part.text.slice(0, 80)}...` : part.text) : `image ${part.image.sha256.slice(0, 12)}`,
+    ),
+  ].join(', ');
+
+/**
+ * Serves recorded exchanges back, without an API key or network. A request is matched by its
+ * model, text and image hashes; identical requests get their recorded exchanges in order, and the
+ * last one again once those run out. Requests with no match throw UnmatchedGeminiRequestError and
+ * are listed in `unmatched`, so a test can fail on them even where the app catches the error.
+ */
+export const createReplayTransport = (fixture: GeminiFixture): GeminiReplayTransport => {
+  const queues = new Map<string, GeminiExchange[]>();
+  for (const exchange of fixture.exchanges) {
+    const key = JSON.stringify(exchange.request);
+    queues.set(key, [...(queues.get(key) ?? []), exchange]);
+  }
+  const unmatched: UnmatchedGeminiRequestError[] = [];
+
+  return {
+    unmatched,
+    generateContent: async (request) => {
+      request.signal?.throwIfAborted();
+      const recorded = await describeGeminiRequest(request);
+      const queue = queues.get(JSON.stringify(recorded));
+      if (!queue) {
+        const error = new UnmatchedGeminiRequestError(
+          `No recorded Gemini response for this request (${summarizeRecordedRequest(recorded)}). Re-record the fixture if the request changed on purpose.`,
+          recorded,
+        );
+        unmatched.push(error);
+        throw error;
+      }
+      const exchange = queue.length > 1 ? queue.shift()! : queue[0];
+      if (exchange.error) {
+        const { message, status } = exchange.error;
+        throw status === undefined ? new Error(message) : new ApiError({ message, status });
+      }
+      return Object.assign(new GenerateContentResponse(), exchange.response);
+    },
+  };
+};
+
+/**
+ * Checks the shape of a fixture read from JSON.
+ * @throws Error if it is not a fixture this version can replay.
+ */
+export const parseGeminiFixture = (json: string): GeminiFixture => {
+  const fixture = JSON.parse(json) as Partial<GeminiFixture>;
+  if (fixture.version !== 1 || !Array.isArray(fixture.exchanges)) {
+    throw new Error('Not a Gemini fixture: expected version 1 and a list of exchanges.');
+  }
+  const invalid = fixture.exchanges.findIndex(
+    (exchange) => !exchange?.request || !Array.isArray(exchange.request.parts) || (!exchange.response && !exchange.error),
+  );
+  if (invalid >= 0) {
+    throw new Error(`Gemini fixture exchange ${invalid + 1} needs a request and a response or error.`);
+  }
+  return fixture as GeminiFixture;
+};
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+/**
+ * Pulls the first image part out of a response, classifying safety blocks and image-less answers.
+ * @param usage The response's token usage, attached to the errors since those requests are billed too.
+ * @throws SafetyBlockError if the prompt or candidate was blocked, NoImagePartError if no image came back.
+ */
+const extractImageData = (response: GenerateContentResponse, usage?: TokenUsage): string => {
+  const promptFeedback = response.promptFeedback;
+  if (promptFeedback?.blockReason) {
+    throw new SafetyBlockError(`Prompt was blocked (${promptFeedback.blockReason}).`, { promptFeedback, usage });
+  }
+
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  const imageDataPart = candidate?.content?.parts?.find(
+    (part) => part.inlineData?.mimeType?.startsWith('image/'),
+  );
 
-    const imageDataPart = response.candidates?.[0]?.content?.parts?.find(
-      (part) => part.inlineData?.mimeType?.startsWith('image/'),
-    );
+  if (imageDataPart && imageDataPart.inlineData) {
+    return imageDataPart.inlineData.data;
+  }
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`Generation was blocked (${finishReason}).`, { finishReason, promptFeedback, usage });
+  }
+  console.error('Gemini API response did not contain an image part:', response);
+  throw new NoImagePartError(
+    `No image found in the Gemini API response${finishReason ? ` (finish reason: ${finishReason})` : ''}.`,
+    finishReason,
+    usage,
+  );
+};
 
-    if (imageDataPart && imageDataPart.inlineData) {
-      return imageDataPart.inlineData.data;
-    } else {
-      console.error('Gemini API response did not contain an image part:', response);
-      throw new Error('No image found in the Gemini API response.');
+/**
+ * Reads the token counts of a response. Thinking tokens are billed as output, so they are
+ * counted with it.
+ */
+const extractUsage = ({ usageMetadata }: GenerateContentResponse): TokenUsage | undefined => {
+  if (!usageMetadata) {
+    return undefined;
+  }
+  const promptTokens = usageMetadata.promptTokenCount ?? 0;
+  const outputTokens = (usageMetadata.candidatesTokenCount ?? 0) + (usageMetadata.thoughtsTokenCount ?? 0);
+  return { promptTokens, outputTokens, totalTokens: usageMetadata.totalTokenCount ?? promptTokens + outputTokens };
+};
+
+/**
+ * Maps an error thrown while calling the Gemini API onto the typed error hierarchy.
+ * Already-classified errors and aborts are returned unchanged.
+ * @param error The caught error.
+ * @param action Short description of the failed operation, used as a message prefix.
+ */
+const classifyGeminiError = (error: unknown, action: string): unknown => {
+  if (error instanceof ImageGenerationError || error instanceof UnmatchedGeminiRequestError || isAbortError(error)) {
+    return error;
+  }
+  const message = `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`;
+  if (error instanceof ApiError) {
+    if (error.status === 429) {
+      return new QuotaExceededError(message, { cause: error });
+    }
+    if (error.status === 408 || error.status >= 500) {
+      return new TransientNetworkError(message, { cause: error });
     }
+  } else if (error instanceof TypeError) {
+    // fetch() reports connection failures (offline, DNS, reset) as a TypeError.
+    return new TransientNetworkError(message, { cause: error });
+  }
+  return new ImageGenerationError('unknown', message, false, { cause: error });
+};
+
+export interface EditImageOptions {
+  /** Aborts the in-flight request. */
+  signal?: AbortSignal;
+  /**
+   * Limits the edit to the mask's white region. Gemini has no native mask input, so the mask is
+   * sent as an extra image and the prompt tells the model how to use it.
+   */
+  mask?: StepImage;
+  /** Labelled reference images, such as other photos of the subject or a style example. */
+  references?: LabelledImage[];
+}
+
+const toImagePart = ({ base64, mimeType }: StepImage): ImagePart => ({
+  inlineData: {
+    data: base64,
+    mimeType,
+  },
+});
+
+/**
+ * Sends an image and a text prompt to a Gemini image model for editing.
+ * Parts are sent in a fixed order: the image to edit, then the mask, then each reference image
+ * preceded by its label, and the prompt last.
+ * @param base64Image The base64 encoded string of the input image.
+ * @param mimeType The MIME type of the input image (e.g., 'image/png', 'image/jpeg').
+ * @param prompt The text instruction for the image editing.
+ * @param model The Gemini model to use.
+ * @param options Abort signal, mask and reference images.
+ * @returns A promise that resolves to the base64 encoded edited image and the request's token usage.
+ * @throws An ImageGenerationError subclass describing why the edit failed.
+ */
+export const editImage = async (
+  base64Image: string,
+  mimeType: string,
+  prompt: string,
+  model: string = GEMINI_IMAGE_MODELS[0],
+  { signal, mask, references = [] }: EditImageOptions = {},
+): Promise<ProviderImage> => {
+  const parts: (ImagePart | { text: string })[] = [toImagePart({ base64: base64Image, mimeType })];
+  if (mask) {
+    parts.push({ text: 'Mask of the region to edit (white = edit, black = keep):' }, toImagePart(mask));
+  }
+  references.forEach(({ label, image }, index) => {
+    parts.push({ text: `Reference image ${index + 1} (${label}):` }, toImagePart(image));
+  });
+  const instructions = [
+    mask && 'Edit only the white region of the mask in the first image and keep everything else exactly as it is.',
+    references.length > 0 && 'Use the reference images for details of the subject and style that the first image does not show, but edit the first image.',
+    prompt,
+  ];
+  parts.push({ text: instructions.filter(Boolean).join(' ') });
+
+  try {
+    const response = await transport.generateContent({ model, parts, signal });
+
+    const usage = extractUsage(response);
+    return { base64: extractImageData(response, usage), usage };
   } catch (error) {
     console.error('Error calling Gemini API for image editing:', error);
-    throw new Error(`Failed to edit image: ${error instanceof Error ? error.message : String(error)}`);
+    throw classifyGeminiError(error, 'edit image');
   }
 };
 
@@ -71,34 +362,34 @@ export const editImage = async (
  * Provides an alternative method for generating images from text only (not directly used for editing in this app,
  * but useful for understanding the model's capabilities).
  * @param prompt The text prompt to generate an image.
- * @returns A promise that resolves to the base64 encoded string of the generated image.
+ * @param model The Gemini model to use.
+ * @param signal Optional signal that aborts the in-flight request.
+ * @returns A promise that resolves to the base64 encoded generated image and the request's token usage.
  */
-export const generateImageFromText = async (prompt: string): Promise<string> => {
-  const ai = getGeminiClient(); // Instantiate client right before use
-
+export const generateImageFromText = async (
+  prompt: string,
+  model: string = GEMINI_IMAGE_MODELS[0],
+  signal?: AbortSignal,
+): Promise<ProviderImage> => {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image', // Or 'imagen-4.0-generate-001' for higher quality
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
+    const response = await transport.generateContent({ model, parts: [{ text: prompt }], signal });
 
-    const imageDataPart = response.candidates?.[0]?.content?.parts?.find(
-      (part) => part.inlineData?.mimeType?.startsWith('image/'),
-    );
-
-    if (imageDataPart && imageDataPart.inlineData) {
-      return imageDataPart.inlineData.data;
-    } else {
-      console.error('Gemini API response did not contain an image part:', response);
-      throw new Error('No image found in the Gemini API response.');
-    }
+    const usage = extractUsage(response);
+    return { base64: extractImageData(response, usage), usage };
   } catch (error) {
     console.error('Error calling Gemini API for image generation:', error);
-    throw new Error(`Failed to generate image: ${error instanceof Error ? error.message : String(error)}`);
+    throw classifyGeminiError(error, 'generate image');
   }
 };
+
+/**
+ * The Gemini backend exposed through the common ImageProvider interface.
+ */
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  models: GEMINI_IMAGE_MODELS,
+  editImage: ({ base64Image, mimeType, prompt, model, signal, mask, references }) =>
+    editImage(base64Image, mimeType, prompt, model, { signal, mask, references }),
+  generateImageFromText: ({ prompt, model, signal }) => generateImageFromText(prompt, model, signal),
+};
@@ -0,0 +1,30 @@
+import { ImageProvider, ProviderSettings } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockImageService';
+
+/**
+ * All providers the app can route image requests through, in the order shown in the picker.
+ */
+export const IMAGE_PROVIDERS: ImageProvider[] = [geminiProvider, mockProvider];
+
+/**
+ * Looks up a registered provider by id.
+ * @param providerId The id of the provider.
+ * @returns The matching provider.
+ * @throws If no provider is registered under that id.
+ */
+export const getImageProvider = (providerId: string): ImageProvider => {
+  const provider = IMAGE_PROVIDERS.find((candidate) => candidate.id === providerId);
+  if (!provider) {
+    throw new Error(`Unknown image provider "${providerId}".`);
+  }
+  return provider;
+};
+
+/**
+ * Picks Gemini when an API key is configured, and the offline mock otherwise.
+ */
+export const getDefaultProviderSettings = (): ProviderSettings => {
+  const provider = process.env.API_KEY ? geminiProvider : mockProvider;
+  return { providerId: provider.id, model: provider.models[0] };
+};
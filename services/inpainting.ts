@@ -0,0 +1,113 @@
+import { ImageProvider, StepImage, UsageTotals } from '../types';
+import { DEFAULT_RETRY_OPTIONS, withRetry } from './retry';
+import { EMPTY_USAGE, addCall, failedCallUsage, sumUsage } from './usage';
+import { createCanvas, loadImage } from '../utils/imageUtils';
+import { sniffBase64MimeType } from '../utils/fileUtils';
+
+export interface InpaintRequest {
+  provider: ImageProvider;
+  model: string;
+  /** The image to edit. */
+  image: StepImage;
+  /** Greyscale mask; white marks the region to change. Scaled to the image size if needed. */
+  mask: StepImage;
+  prompt: string;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: unknown) => void;
+  /** Called with the usage of each request sent, including failed and retried ones. */
+  onUsage?: (usage: UsageTotals) => void;
+}
+
+export interface InpaintResult {
+  /** The composited image as a PNG. */
+  image: StepImage;
+  /** Usage of every request sent, including failed attempts before the one that succeeded. */
+  usage: UsageTotals;
+}
+
+const toDataUrl = ({ base64, mimeType }: StepImage) => `data:${mimeType};base64,${base64}`;
+
+/**
+ * Blends generated pixels into the original through a mask, in place. Pixels where the mask is
+ * black are left untouched, white pixels are replaced and grey ones are mixed.
+ * @param original RGBA pixels of the original image, modified in place.
+ * @param generated RGBA pixels of the model's output at the same size.
+ * @param mask RGBA pixels of the mask at the same size; its red channel is the blend weight.
+ */
+export const compositeMaskedPixels = (
+  original: Uint8ClampedArray,
+  generated: Uint8ClampedArray,
+  mask: Uint8ClampedArray,
+): void => {
+  for (let i = 0; i < original.length; i += 4) {
+    const weight = mask[i] / 255;
+    if (weight === 0) {
+      continue;
+    }
+    for (let channel = 0; channel < 4; channel++) {
+      original[i + channel] = Math.round(original[i + channel] + (generated[i + channel] - original[i + channel]) * weight);
+    }
+  }
+};
+
+/**
+ * Edits the masked region of an image. The provider receives the whole image with the mask, and
+ * only the masked region of its answer is copied back, so opaque pixels outside the mask come out
+ * identical to the original. Semi-transparent ones may shift by a level or so, since the canvas
+ * stores colours premultiplied by alpha.
+ * @param request The image, mask, instruction and provider to use.
+ * @returns The composited image and the usage of every request sent.
+ */
+export const inpaintImage = async ({
+  provider,
+  model,
+  image,
+  mask,
+  prompt,
+  signal,
+  onRetry,
+  onUsage,
+}: InpaintRequest): Promise<InpaintResult> => {
+  let usage = EMPTY_USAGE;
+  const recordCall = (call: UsageTotals) => {
+    usage = sumUsage(usage, call);
+    onUsage?.(call);
+  };
+  const generatedBase64 = await withRetry(async () => {
+    try {
+      const generated = await provider.editImage({ base64Image: image.base64, mimeType: image.mimeType, prompt, model, signal, mask });
+      recordCall(addCall(EMPTY_USAGE, generated.usage));
+      return generated.base64;
+    } catch (error) {
+      const call = failedCallUsage(error);
+      if (call) {
+        recordCall(call);
+      }
+      throw error;
+    }
+  }, { ...DEFAULT_RETRY_OPTIONS, signal, onRetry });
+
+  const [original, generated, maskImage] = await Promise.all([
+    loadImage(toDataUrl(image)),
+    loadImage(toDataUrl({ base64: generatedBase64, mimeType: sniffBase64MimeType(generatedBase64) ?? 'image/png' })),
+    loadImage(toDataUrl(mask)),
+  ]);
+  const { naturalWidth: width, naturalHeight: height } = original;
+
+  // Models often answer at a different resolution, so both overlays are scaled to the original.
+  const readPixels = (source: HTMLImageElement, scaled: boolean) => {
+    const { context } = createCanvas(width, height, { willReadFrequently: true });
+    if (scaled) {
+      context.drawImage(source, 0, 0, width, height);
+    } else {
+      context.drawImage(source, 0, 0);
+    }
+    return context.getImageData(0, 0, width, height);
+  };
+  const result = readPixels(original, false);
+  compositeMaskedPixels(result.data, readPixels(generated, true).data, readPixels(maskImage, true).data);
+
+  const { canvas, context } = createCanvas(width, height);
+  context.putImageData(result, 0, 0);
+  return { image: { base64: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' }, usage };
+};
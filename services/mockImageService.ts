@@ -0,0 +1,103 @@
+import { ImageProvider } from '../types';
+import { sleep } from './retry';
+import { createCanvas, loadImage } from '../utils/imageUtils';
+
+/**
+ * Offline stand-in models. "mock-annotate" tints the input and stamps the prompt on it,
+ * "mock-tint" only tints it.
+ */
+export const MOCK_MODELS = ['mock-annotate', 'mock-tint'];
+
+const MOCK_LATENCY_MS = 400;
+const BLANK_CANVAS_SIZE = 512;
+
+/**
+ * Simple 32-bit FNV-1a hash so identical prompts always get the same tint.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Wraps text onto lines no wider than maxWidth.
+ */
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+};
+
+/**
+ * Tints the canvas with a hue derived from the prompt and, for "mock-annotate", overlays the prompt text.
+ */
+const decorate = (context: CanvasRenderingContext2D, prompt: string, model: string) => {
+  const { width, height } = context.canvas;
+  const hue = hashString(`${model}:${prompt}`) % 360;
+
+  context.fillStyle = `hsla(${hue}, 80%, 50%, 0.25)`;
+  context.fillRect(0, 0, width, height);
+
+  if (model !== 'mock-annotate') {
+    return;
+  }
+
+  const fontSize = Math.max(12, Math.round(width / 32));
+  const padding = fontSize / 2;
+  context.font = `${fontSize}px sans-serif`;
+  const lines = wrapText(context, prompt, width - padding * 2).slice(0, 4);
+  const boxHeight = lines.length * fontSize * 1.2 + padding * 2;
+
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(0, height - boxHeight, width, boxHeight);
+  context.fillStyle = '#ffffff';
+  context.textBaseline = 'top';
+  lines.forEach((line, index) => {
+    context.fillText(line, padding, height - boxHeight + padding + index * fontSize * 1.2);
+  });
+};
+
+const canvasToBase64 = (canvas: HTMLCanvasElement): string => canvas.toDataURL('image/png').split(',')[1];
+
+/**
+ * A deterministic, network-free provider for developing and demoing the UI without an API key.
+ * Outputs are PNG copies of the input, tinted (and optionally annotated) according to the prompt.
+ * It reports no token usage, so runs on it cost nothing.
+ */
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  models: MOCK_MODELS,
+  editImage: async ({ base64Image, mimeType, prompt, model, signal }) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const image = await loadImage(`data:${mimeType};base64,${base64Image}`);
+    const { canvas, context } = createCanvas(image.naturalWidth, image.naturalHeight);
+    context.drawImage(image, 0, 0);
+    decorate(context, prompt, model);
+    return { base64: canvasToBase64(canvas) };
+  },
+  generateImageFromText: async ({ prompt, model, signal }) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const { canvas, context } = createCanvas(BLANK_CANVAS_SIZE, BLANK_CANVAS_SIZE);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    decorate(context, prompt, model);
+    return { base64: canvasToBase64(canvas) };
+  },
+};
@@ -0,0 +1,511 @@
+import {
+  GeneratedImage,
+  ImageEditRequest,
+  ImageProvider,
+  LabelledImage,
+  Pipeline,
+  PipelineStep,
+  ReferenceImage,
+  StepImage,
+  StepStatus,
+  StepValidation,
+  UsageTotals,
+  ValidationCheckResult,
+  ValidationReport,
+} from '../types';
+import { DEFAULT_CONCURRENCY, SOURCE_INPUT_ID } from '../constants';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, withRetry } from './retry';
+import { BudgetExceededError, OutputValidationError } from './errors';
+import { ResultCacheOptions, cachedEditImage } from './resultCache';
+import { EMPTY_USAGE, UsageBudget, addCall, checkBudgetBeforeRun, failedCallUsage, sumUsage, wouldExceedBudget } from './usage';
+import { parseStepValidation } from './validation';
+import { parseTemplateVariables, validateTemplateVariables } from './promptTemplate';
+import { sniffBase64MimeType } from '../utils/fileUtils';
+
+export interface PipelineRunOptions {
+  provider: ImageProvider;
+  model: string;
+  /** Maximum number of steps in flight at once. */
+  concurrency?: number;
+  signal?: AbortSignal;
+  /** When aborted, no further steps are started but steps already in flight are allowed to finish. */
+  pauseSignal?: AbortSignal;
+  /** Backoff settings for retryable provider errors. */
+  retry?: Pick<RetryOptions, 'maxAttempts' | 'baseDelayMs' | 'maxDelayMs'>;
+  /** Outputs from an earlier run; these steps are skipped and their outputs reused as inputs. */
+  completed?: Record<string, StepImage>;
+  /** Only run these steps (plus any of their missing upstream steps) instead of the whole pipeline. */
+  targetStepIds?: string[];
+  /** Reference images available to steps that list their labels in `references`. */
+  references?: LabelledImage[];
+  /**
+   * Runs a step's quality checks on one of its outputs, comparing it with the source image.
+   * Steps with `validation` settings are only checked (and retried) when this is provided.
+   */
+  validateOutput?: (validation: StepValidation, output: StepImage, source: StepImage) => Promise<ValidationCheckResult[]>;
+  /** Serves repeated identical requests from a result cache instead of calling the provider again. */
+  cache?: ResultCacheOptions;
+  /**
+   * Call and token limits for this run. A run that needs more calls than allowed is refused
+   * up front; one that reaches a limit part way pauses before the next step.
+   */
+  budget?: UsageBudget;
+  onStepStatus?: (step: PipelineStep, status: StepStatus, error?: unknown) => void;
+  onStepRetry?: (step: PipelineStep, attempt: number, error: unknown) => void;
+  onStepComplete?: (step: PipelineStep, output: StepImage, details: StepCompletion) => void;
+  /** Reports the usage of each provider request as it returns, including ones whose output is discarded. */
+  onUsage?: (step: PipelineStep, usage: UsageTotals) => void;
+}
+
+export interface StepCompletion {
+  /** Outcome of the step's quality checks, if it has any and they ran. */
+  validation?: ValidationReport;
+  /** True if the output was served from the result cache. */
+  cached: boolean;
+  /** Usage of every request made for this step, including quality-check retries. */
+  usage: UsageTotals;
+}
+
+export interface PipelineRunResult {
+  /** Outputs of every completed step, including the ones passed in as `completed`. */
+  outputs: Record<string, StepImage>;
+  /** Errors of the steps that failed, keyed by step id. */
+  failures: Record<string, unknown>;
+  /** True if the run stopped early because `pauseSignal` fired or the budget ran out; unstarted steps stay queued. */
+  paused: boolean;
+  /** True if the run paused because the next step could have gone over the budget. */
+  budgetExceeded: boolean;
+  /** Usage of every provider request made during this run. */
+  usage: UsageTotals;
+}
+
+/**
+ * Checks a pipeline for structural problems: duplicate or reserved ids, empty prompts,
+ * references to unknown steps, dependency cycles and undefined or malformed template variables.
+ * @param pipeline The pipeline to check.
+ * @returns A list of human readable problems; empty when the pipeline can run.
+ */
+export const validatePipeline = (pipeline: Pipeline): string[] => {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  if (pipeline.steps.length === 0) {
+    problems.push('The pipeline has no steps.');
+  }
+
+  for (const step of pipeline.steps) {
+    if (!step.id.trim()) {
+      problems.push(`Step "${step.name}" has an empty id.`);
+    } else if (step.id === SOURCE_INPUT_ID) {
+      problems.push(`Step id "${SOURCE_INPUT_ID}" is reserved for the original upload.`);
+    } else if (ids.has(step.id)) {
+      problems.push(`Step id "${step.id}" is used more than once.`);
+    }
+    ids.add(step.id);
+
+    if (!step.prompt.trim()) {
+      problems.push(`Step "${step.name || step.id}" has an empty prompt.`);
+    }
+  }
+
+  for (const step of pipeline.steps) {
+    if (step.input !== SOURCE_INPUT_ID && !ids.has(step.input)) {
+      problems.push(`Step "${step.name || step.id}" takes its input from unknown step "${step.input}".`);
+    }
+  }
+
+  problems.push(...validateTemplateVariables(pipeline));
+
+  if (problems.length === 0) {
+    try {
+      resolveExecutionOrder(pipeline);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Orders the steps so that every step runs after the step it takes its input from.
+ * Steps whose inputs are ready at the same time keep their order from the pipeline definition.
+ * @param pipeline The pipeline to order.
+ * @returns The steps in an order that satisfies all input references.
+ */
+export const resolveExecutionOrder = (pipeline: Pipeline): PipelineStep[] => {
+  const ordered: PipelineStep[] = [];
+  const resolved = new Set<string>([SOURCE_INPUT_ID]);
+  let remaining = [...pipeline.steps];
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((step) => resolved.has(step.input));
+    if (ready.length === 0) {
+      const names = remaining.map((step) => step.name || step.id).join(', ');
+      throw new Error(`Steps have circular or missing inputs: ${names}.`);
+    }
+    for (const step of ready) {
+      ordered.push(step);
+      resolved.add(step.id);
+    }
+    remaining = remaining.filter((step) => !resolved.has(step.id));
+  }
+
+  return ordered;
+};
+
+/**
+ * Works out which steps a run has to execute: every step without a completed output, or, when
+ * targets are given, those targets plus whichever of their upstream steps are missing an output.
+ */
+const selectStepsToRun = (
+  pipeline: Pipeline,
+  completed: Record<string, StepImage>,
+  targetStepIds?: string[],
+): PipelineStep[] => {
+  const ordered = resolveExecutionOrder(pipeline);
+  if (!targetStepIds) {
+    return ordered.filter((step) => !(step.id in completed));
+  }
+
+  const stepsById = new Map(pipeline.steps.map((step) => [step.id, step]));
+  const selected = new Set<string>();
+  for (const targetId of targetStepIds) {
+    selected.add(targetId);
+    let inputId = stepsById.get(targetId)?.input;
+    while (inputId && inputId !== SOURCE_INPUT_ID && !(inputId in completed)) {
+      selected.add(inputId);
+      inputId = stepsById.get(inputId)?.input;
+    }
+  }
+  return ordered.filter((step) => selected.has(step.id));
+};
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+/**
+ * Picks the reference images a step asks for, in the order the step lists them.
+ * Labels are matched case-insensitively; labels without an uploaded image are skipped.
+ */
+export const selectReferences = <T extends Pick<LabelledImage, 'label'>>(step: PipelineStep, references: T[]): T[] =>
+  (step.references ?? []).flatMap((label) =>
+    references.filter((reference) => normalizeLabel(reference.label) === normalizeLabel(label)),
+  );
+
+/**
+ * Runs the steps of a pipeline against a source image, feeding each step the output of its input step.
+ * Steps whose inputs are ready run concurrently, up to `options.concurrency` at a time, and retryable
+ * provider errors are retried with backoff. Outputs that fail their step's quality checks are regenerated
+ * up to the step's retry limit. A failed step does not stop independent branches; steps
+ * downstream of it are reported as cancelled, as are steps that had not started when the run was aborted.
+ * Firing `pauseSignal` instead lets in-flight steps finish and leaves the rest queued.
+ * @param pipeline The pipeline to execute.
+ * @param source The original uploaded image.
+ * @param options The provider and model to run with, scheduling limits, resume state and status hooks.
+ * @returns The outputs of all completed steps, the errors of the failed ones and the run's usage.
+ * @throws BudgetExceededError if the run needs more calls than the budget allows.
+ * @throws The abort reason if the run was cancelled.
+ */
+export const runPipeline = async (
+  pipeline: Pipeline,
+  source: StepImage,
+  options: PipelineRunOptions,
+): Promise<PipelineRunResult> => {
+  const { provider, model, signal } = options;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const completed = options.completed ?? {};
+  const outputs: Record<string, StepImage> = { ...completed, [SOURCE_INPUT_ID]: source };
+  const failures: Record<string, unknown> = {};
+  const pending = selectStepsToRun(pipeline, completed, options.targetStepIds);
+  const running = new Set<Promise<void>>();
+  const budget = options.budget ?? {};
+  let usage = EMPTY_USAGE;
+  const stepUsage: Record<string, UsageTotals> = {};
+  let budgetExceeded = false;
+
+  const refusal = checkBudgetBeforeRun(pending.length, budget);
+  if (refusal) {
+    throw new BudgetExceededError(refusal);
+  }
+
+  pending.forEach((step) => options.onStepStatus?.(step, 'queued'));
+
+  /**
+   * Generates one output for a step. `fresh` skips cache reads, for retries after an output
+   * failed its quality checks.
+   */
+  const generate = async (step: PipelineStep, input: StepImage, fresh = false): Promise<{ output: StepImage; cached: boolean }> => {
+    const request: ImageEditRequest = {
+      base64Image: input.base64,
+      mimeType: input.mimeType,
+      prompt: step.prompt,
+      model,
+      signal,
+      references: selectReferences(step, options.references ?? []),
+    };
+    const { cache } = options;
+    const recordCall = (call: UsageTotals) => {
+      usage = sumUsage(usage, call);
+      stepUsage[step.id] = sumUsage(stepUsage[step.id] ?? EMPTY_USAGE, call);
+      options.onUsage?.(step, call);
+    };
+    // Every request sent counts towards the usage and budget, including blocked and retried ones.
+    const result = await withRetry(
+      async () => {
+        try {
+          const image = cache
+            ? await cachedEditImage(provider, request, { ...cache, bypass: cache.bypass || fresh })
+            : { ...(await provider.editImage(request)), cached: false };
+          if (!image.cached) {
+            recordCall(addCall(EMPTY_USAGE, image.usage));
+          }
+          return image;
+        } catch (error) {
+          const call = failedCallUsage(error);
+          if (call) {
+            recordCall(call);
+          }
+          throw error;
+        }
+      },
+      {
+        ...DEFAULT_RETRY_OPTIONS,
+        ...options.retry,
+        signal,
+        onRetry: (attempt, error) => options.onStepRetry?.(step, attempt, error),
+        shouldRetry: () => {
+          if (wouldExceedBudget(usage, running.size, budget)) {
+            budgetExceeded = true;
+            return false;
+          }
+          return true;
+        },
+      },
+    );
+    // Label outputs by their real format: models may answer with a JPEG even for a PNG input.
+    return { output: { base64: result.base64, mimeType: sniffBase64MimeType(result.base64) ?? 'image/png' }, cached: result.cached };
+  };
+
+  /**
+   * Generates a step's output, regenerating it up to `maxRetries` times while it fails its
+   * quality checks. If every attempt fails, the one that failed the fewest checks is kept.
+   */
+  const generateValidated = async (
+    step: PipelineStep,
+    input: StepImage,
+  ): Promise<{ output: StepImage } & Omit<StepCompletion, 'usage'>> => {
+    const { validateOutput } = options;
+    if (!step.validation || !validateOutput) {
+      return generate(step, input);
+    }
+    const maxAttempts = 1 + Math.max(0, step.validation.maxRetries);
+    let best: { output: StepImage; cached: boolean; checks: ValidationCheckResult[]; failed: number } | null = null;
+    let attempts = 0;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      attempts = attempt;
+      const { output, cached } = await generate(step, input, attempt > 1);
+      const checks = await validateOutput(step.validation, output, source);
+      const failed = checks.filter((check) => !check.passed).length;
+      if (!best || failed < best.failed) {
+        best = { output, cached, checks, failed };
+      }
+      if (failed === 0 || wouldExceedBudget(usage, running.size, budget)) {
+        break;
+      }
+      if (attempt < maxAttempts) {
+        options.onStepRetry?.(step, attempt, new OutputValidationError(checks));
+      }
+    }
+    const { output, cached, checks, failed } = best!;
+    return { output, cached, validation: { passed: failed === 0, checks, attempts } };
+  };
+
+  const runStep = async (step: PipelineStep) => {
+    options.onStepStatus?.(step, 'running');
+    try {
+      const { output, ...details } = await generateValidated(step, outputs[step.input]);
+      outputs[step.id] = output;
+      options.onStepStatus?.(step, 'done');
+      options.onStepComplete?.(step, output, { ...details, usage: stepUsage[step.id] ?? EMPTY_USAGE });
+    } catch (error) {
+      if (signal?.aborted) {
+        options.onStepStatus?.(step, 'cancelled');
+      } else {
+        failures[step.id] = error;
+        options.onStepStatus?.(step, 'failed', error);
+      }
+    }
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    if (!signal?.aborted && !options.pauseSignal?.aborted) {
+      for (const step of pending.filter((candidate) => candidate.input in outputs)) {
+        if (running.size >= concurrency) {
+          break;
+        }
+        if (wouldExceedBudget(usage, running.size + 1, budget)) {
+          budgetExceeded = true;
+          break;
+        }
+        pending.splice(pending.indexOf(step), 1);
+        const task: Promise<void> = runStep(step).finally(() => running.delete(task));
+        running.add(task);
+      }
+    }
+    if (running.size === 0) {
+      break;
+    }
+    await Promise.race(running);
+  }
+
+  if (signal?.aborted) {
+    pending.forEach((step) => options.onStepStatus?.(step, 'cancelled'));
+    throw signal.reason;
+  }
+
+  // Steps left over after a pause or on reaching the budget stay queued so the run can be resumed. Otherwise they
+  // are downstream of a failed step and can no longer run.
+  const paused = (Boolean(options.pauseSignal?.aborted) || budgetExceeded) && pending.length > 0;
+  if (!paused) {
+    pending.forEach((step) => options.onStepStatus?.(step, 'cancelled'));
+  }
+
+  delete outputs[SOURCE_INPUT_ID];
+  return { outputs, failures, paused, budgetExceeded: paused && budgetExceeded, usage };
+};
+
+/**
+ * Wraps a step's output as a GeneratedImage that records how it was made.
+ * @param step The step that produced the output, with the prompt actually sent.
+ * @param output The generated image.
+ * @param provenance Provider and model used, plus lineage details for chained or refined outputs.
+ */
+export const createGeneratedImage = (
+  step: PipelineStep,
+  output: StepImage,
+  provenance: Pick<GeneratedImage, 'providerId' | 'model'> &
+    Partial<Pick<GeneratedImage, 'input' | 'inputImageId' | 'references' | 'refinedFromId' | 'validation' | 'cached' | 'usage'>>,
+): GeneratedImage => ({
+  id: uuidv4(),
+  stepId: step.id,
+  name: step.name,
+  description: step.description,
+  src: `data:${output.mimeType};base64,${output.base64}`,
+  prompt: step.prompt,
+  input: step.input,
+  createdAt: new Date().toISOString(),
+  ...provenance,
+});
+
+const referenceKeys = (references: Pick<ReferenceImage, 'id' | 'label'>[]) =>
+  references.map(({ id, label }) => `${id}:${label}`).join('\n');
+
+/**
+ * Finds the steps whose output is out of date: it was generated from a version of its input
+ * that is no longer the preferred one, with other reference images than the step now selects,
+ * or its input is itself out of date.
+ * @param steps The steps of the run.
+ * @param images The preferred output of each step.
+ * @param references The item's current reference images; references are not compared without them.
+ * @returns Ids of the stale steps, in definition order.
+ */
+export const findStaleSteps = (
+  steps: PipelineStep[],
+  images: GeneratedImage[],
+  references?: ReferenceImage[],
+): string[] => {
+  const stepsById = new Map(steps.map((step) => [step.id, step]));
+  const imagesByStepId = new Map(images.map((image) => [image.stepId, image]));
+  const memo = new Map<string, boolean>();
+
+  const isStale = (stepId: string): boolean => {
+    if (!memo.has(stepId)) {
+      const step = stepsById.get(stepId);
+      const image = imagesByStepId.get(stepId);
+      const inputImage = step ? imagesByStepId.get(step.input) : undefined;
+      // Images saved before versions or references were tracked have no inputImageId or references and are trusted.
+      const inputChanged = Boolean(
+        step &&
+          inputImage &&
+          ((image?.inputImageId !== undefined && image.inputImageId !== inputImage.id) || isStale(step.input)),
+      );
+      const referencesChanged = Boolean(
+        step &&
+          references &&
+          image?.references &&
+          referenceKeys(image.references) !== referenceKeys(selectReferences(step, references)),
+      );
+      memo.set(stepId, Boolean(image) && (inputChanged || referencesChanged));
+    }
+    return memo.get(stepId)!;
+  };
+
+  return steps.filter((step) => isStale(step.id)).map((step) => step.id);
+};
+
+/**
+ * Serializes a pipeline to pretty-printed JSON for export.
+ */
+export const serializePipeline = (pipeline: Pipeline): string => JSON.stringify(pipeline, null, 2);
+
+/**
+ * Parses and validates a pipeline exported as JSON.
+ * @param json The JSON text to parse.
+ * @returns The parsed pipeline.
+ * @throws If the JSON is malformed, does not describe a pipeline, or the pipeline is invalid.
+ */
+export const parsePipelineJson = (json: string): Pipeline => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parsePipeline(data);
+};
+
+/**
+ * Validates already-parsed pipeline data, such as a bundled preset, dropping unknown fields.
+ * @throws If the data does not describe a pipeline or the pipeline is invalid.
+ */
+export const parsePipeline = (data: unknown): Pipeline => {
+  if (!data || typeof data !== 'object' || !Array.isArray((data as Pipeline).steps)) {
+    throw new Error('JSON does not describe a pipeline: expected an object with a "steps" array.');
+  }
+
+  const raw = data as Partial<Pipeline>;
+  const pipeline: Pipeline = {
+    id: typeof raw.id === 'string' ? raw.id : 'imported',
+    name: typeof raw.name === 'string' ? raw.name : 'Imported Pipeline',
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    variables: parseTemplateVariables(raw.variables),
+    steps: raw.steps!.map((step, index) => {
+      if (!step || typeof step !== 'object') {
+        throw new Error(`Step ${index + 1} is not an object.`);
+      }
+      for (const field of ['id', 'prompt', 'input'] as const) {
+        if (typeof step[field] !== 'string') {
+          throw new Error(`Step ${index + 1} is missing a string "${field}".`);
+        }
+      }
+      return {
+        id: step.id,
+        name: typeof step.name === 'string' ? step.name : step.id,
+        description: typeof step.description === 'string' ? step.description : '',
+        prompt: step.prompt,
+        input: step.input,
+        references: Array.isArray(step.references)
+          ? step.references.filter((label): label is string => typeof label === 'string')
+          : undefined,
+        validation: parseStepValidation(step.validation),
+      };
+    }),
+  };
+
+  const problems = validatePipeline(pipeline);
+  if (problems.length > 0) {
+    throw new Error(problems.join(' '));
+  }
+  return pipeline;
+};
@@ -0,0 +1,102 @@
+import { CropRect } from '../types';
+import { UploadRejectedError } from './errors';
+import { extensionForMimeType, sniffImageMimeType } from '../utils/fileUtils';
+import { UPRIGHT_ORIENTATION, readJpegOrientation } from '../utils/exif';
+import { canvasToBlob, createCanvas } from '../utils/imageUtils';
+
+/** Largest upload accepted, in bytes. */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/** Upload formats, recognised by their bytes. GIF and WebP are converted to PNG before a run. */
+export const UPLOAD_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/** Formats sent to the model as they are. */
+const PASSTHROUGH_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+/** Longest-side limits offered for sources; null keeps the original size. */
+export const SOURCE_SIZE_LIMITS: (number | null)[] = [1024, 1536, 2048, null];
+
+export const DEFAULT_SOURCE_SIZE_LIMIT = 1536;
+
+const JPEG_QUALITY = 0.92;
+
+export interface PreprocessOptions {
+  /** Longest side of the prepared image in pixels; larger images are scaled down. Null keeps the size. */
+  maxDimension: number | null;
+  /** Part of the upright image to keep, or null for all of it. */
+  crop?: CropRect | null;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+/**
+ * Checks an upload against the size limit and the accepted formats. The format is read from the
+ * file's bytes, since its declared type comes from the file name.
+ * @returns The detected MIME type.
+ * @throws UploadRejectedError if the file is too large or not an accepted image.
+ */
+export const checkUpload = async (file: File): Promise<string> => {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadRejectedError(
+      `${file.name} is ${formatMegabytes(file.size)}; images can be at most ${formatMegabytes(MAX_UPLOAD_BYTES)}.`,
+    );
+  }
+  const mimeType = sniffImageMimeType(new Uint8Array(await file.slice(0, 16).arrayBuffer()));
+  if (!mimeType || !UPLOAD_MIME_TYPES.includes(mimeType)) {
+    throw new UploadRejectedError(`${file.name} is not a PNG, JPEG, GIF or WebP image.`);
+  }
+  return mimeType;
+};
+
+/**
+ * Decodes an image with its EXIF orientation applied, so photos taken sideways come out upright.
+ * GIFs decode to their first frame.
+ */
+export const decodeUpright = (file: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(file, { imageOrientation: 'from-image' });
+
+/**
+ * Clamps a crop to the image and rounds it to whole pixels.
+ */
+export const clampCrop = (crop: CropRect, width: number, height: number): CropRect => {
+  const x = Math.min(Math.max(0, Math.round(crop.x)), width - 1);
+  const y = Math.min(Math.max(0, Math.round(crop.y)), height - 1);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width), width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height), height - y)),
+  };
+};
+
+/**
+ * Prepares an upload as the source of a run: checks it, turns it upright, crops it, scales it down
+ * to `maxDimension` and converts it to PNG (or keeps a JPEG a JPEG). A PNG or upright JPEG that
+ * needs none of this is kept byte for byte, so its hash and quality stay the same.
+ * @param file The file as uploaded.
+ * @returns The prepared image, named after the upload with the extension of its format.
+ * @throws UploadRejectedError if the file is too large or not an accepted image.
+ */
+export const preprocessUpload = async (file: File, { maxDimension, crop = null }: PreprocessOptions): Promise<File> => {
+  const mimeType = await checkUpload(file);
+  const orientation = mimeType === 'image/jpeg' ? readJpegOrientation(new Uint8Array(await file.arrayBuffer())) : null;
+  const bitmap = await decodeUpright(file);
+  try {
+    const area = clampCrop(crop ?? { x: 0, y: 0, width: bitmap.width, height: bitmap.height }, bitmap.width, bitmap.height);
+    const scale = maxDimension ? Math.min(1, maxDimension / Math.max(area.width, area.height)) : 1;
+    const isUpright = (orientation ?? UPRIGHT_ORIENTATION) === UPRIGHT_ORIENTATION;
+    if (!crop && scale === 1 && isUpright && PASSTHROUGH_MIME_TYPES.includes(mimeType)) {
+      return new File([file], file.name, { type: mimeType });
+    }
+
+    const { canvas, context } = createCanvas(Math.round(area.width * scale), Math.round(area.height * scale));
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, area.x, area.y, area.width, area.height, 0, 0, canvas.width, canvas.height);
+    // JPEGs have no transparency to keep, and re-encoding them as PNG would only make them larger.
+    const outputType = mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    const blob = await canvasToBlob(canvas, outputType, JPEG_QUALITY);
+    return new File([blob], `${file.name.replace(/\.[^.]+$/, '')}.${extensionForMimeType(outputType)}`, { type: outputType });
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,154 @@
+import { Project, ProjectSummary } from '../types';
+import { createDatabaseOpener, requestToPromise, runTransaction } from '../utils/indexedDb';
+
+const DB_NAME = 'gemini-image-studio';
+const DB_VERSION = 1;
+/** Summaries, cheap to list. */
+const SUMMARY_STORE = 'projects';
+/** Full project records including every image, loaded one at a time. */
+const DATA_STORE = 'projectData';
+
+/**
+ * Fraction of the storage quota above which the app warns and offers to prune old projects.
+ */
+export const STORAGE_WARNING_RATIO = 0.8;
+
+/**
+ * Thrown when the browser refuses a write because the storage quota is used up.
+ */
+export class StorageFullError extends Error {
+  constructor(options?: { cause?: unknown }) {
+    super('Browser storage is full. Delete or prune old projects to keep saving runs.', options);
+    this.name = 'StorageFullError';
+  }
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const openDatabase = createDatabaseOpener(
+  DB_NAME,
+  DB_VERSION,
+  { [SUMMARY_STORE]: 'id', [DATA_STORE]: 'id' },
+  'project database',
+);
+
+/**
+ * Runs `work` inside a transaction over both stores and resolves once the transaction commits.
+ * Quota failures are reported as StorageFullError.
+ */
+const withTransaction = async <T>(
+  mode: IDBTransactionMode,
+  work: (summaries: IDBObjectStore, data: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => {
+  try {
+    return await runTransaction(await openDatabase(), [SUMMARY_STORE, DATA_STORE], mode, work);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new StorageFullError({ cause: error });
+    }
+    throw error;
+  }
+};
+
+const summarize = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  sourceName: project.source.name,
+  imageCount: project.images.length,
+  stepCount: project.pipeline.steps.length,
+});
+
+/**
+ * Lists saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const summaries = await withTransaction('readonly', (store) =>
+    requestToPromise(store.getAll() as IDBRequest<ProjectSummary[]>),
+  );
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Loads a full project, including its source image and outputs.
+ * @throws If no project with that id exists.
+ */
+export const loadProject = async (id: string): Promise<Project> => {
+  const project = await withTransaction('readonly', (_, data) =>
+    requestToPromise(data.get(id) as IDBRequest<Project | undefined>),
+  );
+  if (!project) {
+    throw new Error('Project not found. It may have been deleted in another tab.');
+  }
+  return project;
+};
+
+/**
+ * Creates or overwrites a project.
+ * @throws StorageFullError if the browser's storage quota is exhausted.
+ */
+export const saveProject = (project: Project): Promise<void> =>
+  withTransaction('readwrite', (summaries, data) => {
+    summaries.put(summarize(project));
+    data.put(project);
+  });
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await loadProject(id);
+  await saveProject({ ...project, name, updatedAt: new Date().toISOString() });
+};
+
+/**
+ * Copies a project under a new id.
+ * @param id The project to copy.
+ * @param newId Id for the copy.
+ * @returns The summary of the copy.
+ */
+export const duplicateProject = async (id: string, newId: string): Promise<ProjectSummary> => {
+  const project = await loadProject(id);
+  const now = new Date().toISOString();
+  const copy: Project = { ...project, id: newId, name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return summarize(copy);
+};
+
+export const deleteProject = (id: string): Promise<void> =>
+  withTransaction('readwrite', (summaries, data) => {
+    summaries.delete(id);
+    data.delete(id);
+  });
+
+/**
+ * Reports how much of the origin's storage quota is used, where the browser supports it.
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+};
+
+/**
+ * Deletes the least recently updated projects until storage use drops below the target ratio.
+ * @param targetRatio Fraction of the quota to get under.
+ * @param keepIds Projects that must not be deleted, such as the one currently open.
+ * @returns The ids of the deleted projects.
+ */
+export const pruneOldProjects = async (targetRatio: number, keepIds: string[] = []): Promise<string[]> => {
+  const candidates = (await listProjects()).filter((project) => !keepIds.includes(project.id)).reverse();
+  const deleted: string[] = [];
+  for (const project of candidates) {
+    const estimate = await getStorageEstimate();
+    if (!estimate || estimate.usage / estimate.quota < targetRatio) {
+      break;
+    }
+    await deleteProject(project.id);
+    deleted.push(project.id);
+  }
+  return deleted;
+};
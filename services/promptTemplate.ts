@@ -0,0 +1,196 @@
+import { Pipeline, TemplateVariable, TemplateVariableType } from '../types';
+
+/** `{{name}}`, or `{{name:name}}` for a colour described in words. */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)(?:\s*:\s*(name))?\s*\}\}/g;
+const PLAIN_PLACEHOLDER_PATTERN = /^\{\{\s*[A-Za-z_][\w-]*\s*\}\}$/;
+/** A placeholder with the space in front of it, if any. */
+const SPACED_PLACEHOLDER_PATTERN = new RegExp(`( ?)${PLACEHOLDER_PATTERN.source}`, 'g');
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const TEMPLATE_VARIABLE_TYPES: Record<TemplateVariableType, string> = {
+  text: 'Text',
+  color: 'Colour',
+  choice: 'Choice',
+};
+
+/**
+ * Whether a value is nothing but a single `{{name}}` placeholder, e.g. a check colour that
+ * follows a colour variable.
+ */
+export const isPlaceholder = (value: string): boolean => PLAIN_PLACEHOLDER_PATTERN.test(value.trim());
+
+/** Upper hue bound, in degrees, of each colour name. */
+const HUE_NAMES: [number, string][] = [
+  [15, 'red'],
+  [45, 'orange'],
+  [70, 'yellow'],
+  [160, 'green'],
+  [195, 'cyan'],
+  [255, 'blue'],
+  [285, 'purple'],
+  [335, 'magenta'],
+  [360, 'red'],
+];
+
+/**
+ * Names a hex colour in words for a prompt, e.g. "bright green" for #00FF00 or "dark blue" for
+ * #000080. Values that are not hex colours are returned as they are.
+ */
+export const describeColor = (value: string): string => {
+  if (!HEX_COLOR_PATTERN.test(value)) {
+    return value;
+  }
+  const [r, g, b] = [1, 3, 5].map((offset) => parseInt(value.slice(offset, offset + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const chroma = max - min;
+  const saturation = chroma === 0 ? 0 : chroma / (1 - Math.abs(2 * lightness - 1));
+  if (saturation < 0.15 || chroma < 0.08) {
+    return lightness > 0.9 ? 'white' : lightness < 0.1 ? 'black' : lightness > 0.6 ? 'light grey' : lightness < 0.35 ? 'dark grey' : 'grey';
+  }
+  const sector = max === r ? ((g - b) / chroma + 6) % 6 : max === g ? (b - r) / chroma + 2 : (r - g) / chroma + 4;
+  const name = HUE_NAMES.find(([bound]) => sector * 60 < bound)![1];
+  if (lightness < 0.35) {
+    return `dark ${name}`;
+  }
+  if (lightness > 0.65) {
+    return `light ${name}`;
+  }
+  return saturation > 0.8 ? `bright ${name}` : name;
+};
+
+/**
+ * Names of the variables a template references, in order of first use.
+ */
+export const findPlaceholders = (template: string): string[] => [
+  ...new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1])),
+];
+
+/**
+ * Replaces every `{{name}}` with its value, and every `{{name:name}}` with its colour described
+ * in words, and leaves the rest of the template as it is. Placeholders without a value are kept.
+ * An empty value also drops the space in front of its placeholder, so an unset optional clause
+ * such as ` {{style}}` leaves no trailing space.
+ */
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(SPACED_PLACEHOLDER_PATTERN, (placeholder, space: string, name: string, format?: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return value === '' ? '' : `${space}${format ? describeColor(value) : value}`;
+  });
+
+/**
+ * Checks a value against its variable's type.
+ * @returns A human readable problem, or null if the value is acceptable.
+ */
+export const checkTemplateValue = (variable: TemplateVariable, value: string): string | null => {
+  if (variable.type === 'color' && !HEX_COLOR_PATTERN.test(value)) {
+    return `${variable.label} must be a colour like #00FF00.`;
+  }
+  if (variable.type === 'choice' && !(variable.options ?? []).includes(value)) {
+    return `${variable.label} must be one of: ${(variable.options ?? []).join(', ')}.`;
+  }
+  return null;
+};
+
+/**
+ * Fills in defaults for the variables that have no value (or one of the wrong type).
+ * @param variables The pipeline's variables.
+ * @param values Values entered so far, keyed by variable name.
+ */
+export const resolveTemplateValues = (
+  variables: TemplateVariable[],
+  values: Record<string, string>,
+): Record<string, string> =>
+  Object.fromEntries(
+    variables.map((variable) => {
+      const value = values[variable.name];
+      return [variable.name, value !== undefined && !checkTemplateValue(variable, value) ? value : variable.default];
+    }),
+  );
+
+/**
+ * Lists problems with a pipeline's variables: bad or duplicate names, defaults of the wrong
+ * type and placeholders in prompts or check colours that no variable defines.
+ */
+export const validateTemplateVariables = (pipeline: Pipeline): string[] => {
+  const problems: string[] = [];
+  const variables = pipeline.variables ?? [];
+  const names = new Set<string>();
+  for (const variable of variables) {
+    if (!VARIABLE_NAME_PATTERN.test(variable.name)) {
+      problems.push(`Variable name "${variable.name}" must start with a letter and contain only letters, digits, "_" or "-".`);
+    } else if (names.has(variable.name)) {
+      problems.push(`Variable "${variable.name}" is defined more than once.`);
+    }
+    names.add(variable.name);
+    if (variable.type === 'choice' && !variable.options?.length) {
+      problems.push(`Choice variable "${variable.name}" has no options.`);
+    }
+    const defaultProblem = checkTemplateValue(variable, variable.default);
+    if (defaultProblem) {
+      problems.push(`Default of "${variable.name}": ${defaultProblem}`);
+    }
+  }
+  for (const step of pipeline.steps) {
+    const used = [...findPlaceholders(step.prompt), ...findPlaceholders(step.validation?.background?.color ?? '')];
+    for (const name of new Set(used)) {
+      if (!names.has(name)) {
+        problems.push(`Step "${step.name || step.id}" uses undefined variable {{${name}}}.`);
+      }
+    }
+  }
+  return problems;
+};
+
+/**
+ * Produces the pipeline as it is sent: every prompt, and every background check colour that
+ * is a placeholder, rendered with the given values (or the variables' defaults).
+ * @param pipeline A pipeline whose prompts may contain `{{name}}` placeholders.
+ * @param values Values entered in the variables form, keyed by variable name.
+ */
+export const renderPipeline = (pipeline: Pipeline, values: Record<string, string>): Pipeline => {
+  const resolved = resolveTemplateValues(pipeline.variables ?? [], values);
+  return {
+    ...pipeline,
+    steps: pipeline.steps.map((step) => {
+      const background = step.validation?.background;
+      return {
+        ...step,
+        prompt: renderTemplate(step.prompt, resolved),
+        validation:
+          step.validation && background && isPlaceholder(background.color)
+            ? { ...step.validation, background: { ...background, color: renderTemplate(background.color, resolved) } }
+            : step.validation,
+      };
+    }),
+  };
+};
+
+/**
+ * Reads the `variables` of an imported pipeline, dropping entries that are not variables.
+ */
+export const parseTemplateVariables = (value: unknown): TemplateVariable[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value
+    .filter((raw): raw is Record<string, unknown> => Boolean(raw) && typeof raw === 'object' && typeof raw.name === 'string')
+    .map((raw) => {
+      const type = raw.type === 'color' || raw.type === 'choice' ? raw.type : 'text';
+      return {
+        name: raw.name as string,
+        label: typeof raw.label === 'string' ? raw.label : (raw.name as string),
+        type,
+        default: typeof raw.default === 'string' ? raw.default : '',
+        options: Array.isArray(raw.options)
+          ? raw.options.filter((option): option is string => typeof option === 'string')
+          : undefined,
+        description: typeof raw.description === 'string' ? raw.description : undefined,
+      };
+    });
+};
@@ -0,0 +1,322 @@
+import { GeneratedImage } from '../types';
+import { base64ToBytes, concatBytes, parseDataUrl, sniffImageMimeType } from '../utils/fileUtils';
+import { sha256Hex } from '../utils/hash';
+import { createPngChunk, readPngChunks } from '../utils/png';
+
+const APP_NAME = 'Gemini Image Studio';
+/** PNG text keyword, and XMP property prefix, of the machine-readable record. */
+const PROVENANCE_KEYWORD = 'gemini-image-studio';
+const XMP_NAMESPACE = 'urn:gemini-image-studio:provenance:1/';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+/** Largest payload of a JPEG APP1 segment. */
+const MAX_JPEG_SEGMENT = 65533;
+
+/**
+ * Where a generated image came from, as embedded in exported files.
+ */
+export interface ImageProvenance {
+  version: 1;
+  stepId: string;
+  stepName: string;
+  /** The full prompt that was sent. */
+  prompt: string;
+  providerId: string;
+  model: string;
+  /** SHA-256 of the uploaded source image the run started from. */
+  sourceSha256: string;
+  /** Id of the step whose output was the input, or "source" for the original upload. */
+  parentStepId: string;
+  /** Id of the parent step's image version the output was generated from. */
+  parentImageId?: string;
+  /** ISO timestamp of when the image was generated. */
+  createdAt: string;
+}
+
+/**
+ * Collects the provenance of a generated image.
+ * @param sourceSha256 Hash of the run's source image, e.g. from hashSourceDataUrl.
+ */
+export const createProvenance = (image: GeneratedImage, sourceSha256: string): ImageProvenance => ({
+  version: 1,
+  stepId: image.stepId,
+  stepName: image.name,
+  prompt: image.prompt,
+  providerId: image.providerId,
+  model: image.model,
+  sourceSha256,
+  parentStepId: image.input,
+  parentImageId: image.inputImageId,
+  createdAt: image.createdAt,
+});
+
+/**
+ * Hashes the bytes of a source image data URL, the way provenance identifies it.
+ */
+export const hashSourceDataUrl = (sourceDataUrl: string): Promise<string> =>
+  sha256Hex(base64ToBytes(parseDataUrl(sourceDataUrl).base64));
+
+const isLatin1 = (text: string) => /^[\n\x20-\x7e\xa0-\xff]*$/.test(text);
+
+/**
+ * Builds a tEXt chunk, or an uncompressed UTF-8 iTXt chunk for text that Latin-1 cannot hold.
+ */
+const createTextChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  if (isLatin1(text)) {
+    return createPngChunk('tEXt', Uint8Array.from(`${keyword}\0${text}`, (char) => char.charCodeAt(0)));
+  }
+  // Keyword, null, compression flag and method (none), empty language tag and translated keyword.
+  return createPngChunk('iTXt', concatBytes([encoder.encode(keyword), Uint8Array.from([0, 0, 0, 0, 0]), encoder.encode(text)]));
+};
+
+/**
+ * Reads the tEXt and uncompressed iTXt entries of a PNG, keyed by keyword.
+ */
+export const readPngText = (bytes: Uint8Array): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  const decoder = new TextDecoder();
+  const latin1 = new TextDecoder('latin1');
+  for (const { type, data } of readPngChunks(bytes)) {
+    const separator = data.indexOf(0);
+    if (separator < 0) {
+      continue;
+    }
+    const keyword = latin1.decode(data.subarray(0, separator));
+    if (type === 'tEXt') {
+      entries[keyword] = latin1.decode(data.subarray(separator + 1));
+    } else if (type === 'iTXt' && data[separator + 1] === 0) {
+      // Skip the compression fields, then the language tag and translated keyword.
+      const languageEnd = data.indexOf(0, separator + 3);
+      const translatedEnd = data.indexOf(0, languageEnd + 1);
+      if (languageEnd >= 0 && translatedEnd >= 0) {
+        entries[keyword] = decoder.decode(data.subarray(translatedEnd + 1));
+      }
+    }
+  }
+  return entries;
+};
+
+/**
+ * Adds text chunks right after IHDR: readable Title, Description, Software and Creation Time
+ * entries, and the full record as JSON under the app's own keyword.
+ */
+const embedInPng = (bytes: Uint8Array, provenance: ImageProvenance): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  const header = chunks[0];
+  if (header?.type !== 'IHDR') {
+    throw new Error('PNG does not start with an IHDR chunk.');
+  }
+  const headerEnd = header.offset + 12 + header.data.length;
+  return concatBytes([
+    bytes.subarray(0, headerEnd),
+    createTextChunk('Title', provenance.stepName),
+    createTextChunk('Description', provenance.prompt),
+    createTextChunk('Software', APP_NAME),
+    createTextChunk('Creation Time', provenance.createdAt),
+    createTextChunk(PROVENANCE_KEYWORD, JSON.stringify(provenance)),
+    bytes.subarray(headerEnd),
+  ]);
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&(#\d+|#x[0-9a-f]+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (entity[0] !== '#') {
+      return named[entity.toLowerCase()];
+    }
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+  });
+
+/**
+ * Keeps the longest start of a text that, XML-escaped and UTF-8 encoded with an ellipsis
+ * appended, fits in the given number of bytes.
+ */
+const truncateXmlText = (text: string, maxBytes: number): string => {
+  const encoder = new TextEncoder();
+  const ellipsis = '\u2026';
+  let used = encoder.encode(ellipsis).length;
+  if (used > maxBytes) {
+    return '';
+  }
+  let end = 0;
+  for (const char of text) {
+    const size = encoder.encode(escapeXml(char)).length;
+    if (used + size > maxBytes) {
+      break;
+    }
+    used += size;
+    end += char.length;
+  }
+  return `${text.slice(0, end)}${ellipsis}`;
+};
+
+/**
+ * Builds an XMP packet with Dublin Core title and description, XMP creation details and every
+ * provenance field as a property in the app's namespace.
+ * @param description The readable description; the prompt unless it has to be shortened.
+ */
+const createXmpPacket = (provenance: ImageProvenance, description = provenance.prompt): string => {
+  const fields = Object.entries(provenance)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `\n    gis:${key}="${escapeXml(String(value))}"`)
+    .join('');
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:gis="${XMP_NAMESPACE}"
+    xmp:CreatorTool="${APP_NAME}"
+    xmp:CreateDate="${escapeXml(provenance.createdAt)}"${fields}>
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.stepName)}</rdf:li></rdf:Alt></dc:title>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(description)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+/**
+ * Inserts an XMP APP1 segment after the start of image marker and any JFIF APP0 segment,
+ * which must stay first. A prompt too long for one segment is shortened in the readable
+ * description; if the full record alone does not fit, the image is returned without metadata.
+ */
+const embedInJpeg = (bytes: Uint8Array, provenance: ImageProvenance): Uint8Array => {
+  const encodePayload = (description?: string) => new TextEncoder().encode(XMP_HEADER + createXmpPacket(provenance, description));
+  let payload = encodePayload();
+  if (payload.length > MAX_JPEG_SEGMENT) {
+    payload = encodePayload(truncateXmlText(provenance.prompt, MAX_JPEG_SEGMENT - encodePayload('').length));
+  }
+  if (payload.length > MAX_JPEG_SEGMENT) {
+    console.warn(`The prompt of "${provenance.stepName}" is too long to embed in a JPEG; it is exported without provenance.`);
+    return bytes;
+  }
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  const segmentLength = payload.length + 2;
+  return concatBytes([
+    bytes.subarray(0, insertAt),
+    Uint8Array.from([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff]),
+    payload,
+    bytes.subarray(insertAt),
+  ]);
+};
+
+/**
+ * Finds the XMP packet of a JPEG by walking its segments up to the image data.
+ */
+const readJpegXmp = (bytes: Uint8Array): string | null => {
+  const header = new TextEncoder().encode(XMP_HEADER);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) {
+      break; // Start of scan or end of image: no more metadata segments.
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const start = offset + 4;
+    if (marker === 0xe1 && header.every((byte, index) => bytes[start + index] === byte)) {
+      return new TextDecoder().decode(bytes.subarray(start + header.length, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Embeds provenance in an exported image: text chunks in a PNG, XMP in a JPEG. Other formats
+ * have no metadata written and are returned unchanged.
+ * @param bytes The encoded image.
+ * @returns The image with its provenance.
+ */
+export const embedProvenance = (bytes: Uint8Array, provenance: ImageProvenance): Uint8Array => {
+  switch (sniffImageMimeType(bytes)) {
+    case 'image/png':
+      return embedInPng(bytes, provenance);
+    case 'image/jpeg':
+      return embedInJpeg(bytes, provenance);
+    default:
+      return bytes;
+  }
+};
+
+/**
+ * Decodes an image data URL and embeds its provenance, e.g. for a single-image download.
+ * @returns The image file, typed by its real format.
+ */
+export const imageBlobWithProvenance = (src: string, provenance: ImageProvenance): Blob => {
+  const { base64, mimeType } = parseDataUrl(src);
+  const bytes = embedProvenance(base64ToBytes(base64), provenance);
+  return new Blob([bytes], { type: sniffImageMimeType(bytes) ?? mimeType });
+};
+
+const PROVENANCE_FIELDS: (keyof ImageProvenance)[] = [
+  'stepId',
+  'stepName',
+  'prompt',
+  'providerId',
+  'model',
+  'sourceSha256',
+  'parentStepId',
+  'parentImageId',
+  'createdAt',
+];
+
+const toProvenance = (raw: Record<string, unknown>): ImageProvenance | null => {
+  const fields = Object.fromEntries(
+    PROVENANCE_FIELDS.filter((field) => typeof raw[field] === 'string').map((field) => [field, raw[field]]),
+  ) as Partial<ImageProvenance>;
+  const { stepId, stepName, prompt, providerId, model, sourceSha256, parentStepId, createdAt } = fields;
+  if (!stepId || !prompt || !providerId || !model || sourceSha256 === undefined || !parentStepId || !createdAt) {
+    return null;
+  }
+  return {
+    version: 1,
+    stepId,
+    stepName: stepName ?? stepId,
+    prompt,
+    providerId,
+    model,
+    sourceSha256,
+    parentStepId,
+    parentImageId: fields.parentImageId,
+    createdAt,
+  };
+};
+
+/**
+ * Reads back provenance embedded by {@link embedProvenance}.
+ * @returns The provenance, or null if the file has none (or is not a PNG or JPEG).
+ */
+export const readProvenance = (bytes: Uint8Array): ImageProvenance | null => {
+  const mimeType = sniffImageMimeType(bytes);
+  if (mimeType === 'image/png') {
+    const json = readPngText(bytes)[PROVENANCE_KEYWORD];
+    if (!json) {
+      return null;
+    }
+    try {
+      return toProvenance(JSON.parse(json) as Record<string, unknown>);
+    } catch {
+      return null;
+    }
+  }
+  if (mimeType === 'image/jpeg') {
+    const xmp = readJpegXmp(bytes);
+    if (!xmp) {
+      return null;
+    }
+    const raw: Record<string, string> = {};
+    for (const [, key, value] of xmp.matchAll(/gis:(\w+)="([^"]*)"/g)) {
+      raw[key] = unescapeXml(value);
+    }
+    return toProvenance(raw);
+  }
+  return null;
+};
@@ -0,0 +1,211 @@
+import { ImageEditRequest, ImageGenerationRequest, ImageProvider, ProviderImage, StepImage } from '../types';
+import { base64ToBytes } from '../utils/fileUtils';
+import { sha256Hex } from '../utils/hash';
+import { createDatabaseOpener, requestToPromise, runTransaction } from '../utils/indexedDb';
+
+/**
+ * Bump when the way requests are sent to providers changes, so results cached for the old
+ * request shape are no longer served.
+ */
+const CACHE_KEY_VERSION = 1;
+
+/** Cache size used when none is configured. */
+export const DEFAULT_CACHE_MAX_BYTES = 500 * 1024 * 1024;
+
+export interface CacheEntryInfo {
+  key: string;
+  /** Size of the cached image in bytes. */
+  size: number;
+  /** Milliseconds since the epoch of the last read or write. */
+  lastUsedAt: number;
+}
+
+/**
+ * Where cached results live: IndexedDB in the browser, a directory when run headless.
+ */
+export interface ResultCacheStore {
+  /** Returns the cached base64 image and marks it as recently used, or null on a miss. */
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, base64: string) => Promise<void>;
+  entries: () => Promise<CacheEntryInfo[]>;
+  delete: (keys: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface ResultCacheOptions {
+  store: ResultCacheStore;
+  /** Least recently used results are evicted once the cache grows past this size. */
+  maxBytes: number;
+  /** Skip cache reads for this run; fresh results are still written back. */
+  bypass?: boolean;
+}
+
+export interface CachedResult extends ProviderImage {
+  /** True if the result was served from the cache instead of a new request. */
+  cached: boolean;
+}
+
+const hashImage = (image: StepImage) => sha256Hex(base64ToBytes(image.base64));
+
+/** Size in bytes of the data a base64 string encodes. */
+const decodedSize = (base64: string) => Math.floor((base64.length * 3) / 4) - (base64.match(/=+$/)?.[0].length ?? 0);
+
+/**
+ * Computes the cache key for an edit request: a hash of the input image bytes, mask,
+ * references, prompt, provider and model. The abort signal is not part of the key.
+ */
+export const editRequestKey = async (providerId: string, request: ImageEditRequest): Promise<string> =>
+  sha256Hex(
+    new TextEncoder().encode(
+      JSON.stringify({
+        version: CACHE_KEY_VERSION,
+        kind: 'edit',
+        providerId,
+        model: request.model,
+        prompt: request.prompt,
+        image: await hashImage({ base64: request.base64Image, mimeType: request.mimeType }),
+        mask: request.mask ? await hashImage(request.mask) : null,
+        references: await Promise.all(
+          (request.references ?? []).map(async ({ label, image }) => ({ label, image: await hashImage(image) })),
+        ),
+      }),
+    ),
+  );
+
+/**
+ * Computes the cache key for a text-to-image request.
+ */
+export const generationRequestKey = (providerId: string, request: ImageGenerationRequest): Promise<string> =>
+  sha256Hex(
+    new TextEncoder().encode(
+      JSON.stringify({
+        version: CACHE_KEY_VERSION,
+        kind: 'generate',
+        providerId,
+        model: request.model,
+        prompt: request.prompt,
+      }),
+    ),
+  );
+
+/**
+ * Deletes the least recently used results until the cache fits in `maxBytes`.
+ * @returns The number of evicted results.
+ */
+export const evictLeastRecentlyUsed = async (store: ResultCacheStore, maxBytes: number): Promise<number> => {
+  const entries = (await store.entries()).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted: string[] = [];
+  for (const entry of entries) {
+    if (total <= maxBytes) {
+      break;
+    }
+    evicted.push(entry.key);
+    total -= entry.size;
+  }
+  if (evicted.length > 0) {
+    await store.delete(evicted);
+  }
+  return evicted.length;
+};
+
+/**
+ * Serves a result from the cache, or runs the request and caches what it returns.
+ * Cache failures never fail the request; they only cost a cache miss.
+ */
+const readThrough = async (
+  key: string,
+  request: () => Promise<ProviderImage>,
+  { store, maxBytes, bypass }: ResultCacheOptions,
+): Promise<CachedResult> => {
+  if (!bypass) {
+    const hit = await store.get(key).catch((error) => {
+      console.warn('Failed to read from the result cache:', error);
+      return null;
+    });
+    if (hit) {
+      return { base64: hit, cached: true };
+    }
+  }
+  const result = await request();
+  try {
+    await store.set(key, result.base64);
+    await evictLeastRecentlyUsed(store, maxBytes);
+  } catch (error) {
+    console.warn('Failed to write to the result cache:', error);
+  }
+  return { ...result, cached: false };
+};
+
+/**
+ * Edits an image through a provider, reusing an earlier identical result if one is cached.
+ */
+export const cachedEditImage = async (
+  provider: ImageProvider,
+  request: ImageEditRequest,
+  cache: ResultCacheOptions,
+): Promise<CachedResult> =>
+  readThrough(await editRequestKey(provider.id, request), () => provider.editImage(request), cache);
+
+/**
+ * Generates an image from text through a provider, reusing an earlier identical result if one is cached.
+ */
+export const cachedGenerateImageFromText = async (
+  provider: ImageProvider,
+  request: ImageGenerationRequest,
+  cache: ResultCacheOptions,
+): Promise<CachedResult> =>
+  readThrough(await generationRequestKey(provider.id, request), () => provider.generateImageFromText(request), cache);
+
+const DB_NAME = 'gemini-result-cache';
+const DB_VERSION = 1;
+/** Sizes and last-used times, cheap to scan for eviction. */
+const ENTRY_STORE = 'entries';
+/** The cached images themselves. */
+const RESULT_STORE = 'results';
+
+const openDatabase = createDatabaseOpener(
+  DB_NAME,
+  DB_VERSION,
+  { [ENTRY_STORE]: 'key', [RESULT_STORE]: 'key' },
+  'result cache database',
+);
+
+const withTransaction = async <T>(
+  mode: IDBTransactionMode,
+  work: (entries: IDBObjectStore, results: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => runTransaction(await openDatabase(), [ENTRY_STORE, RESULT_STORE], mode, work);
+
+/**
+ * The browser's result cache, kept in its own IndexedDB database next to the project store.
+ */
+export const indexedDbCacheStore: ResultCacheStore = {
+  get: (key) =>
+    withTransaction('readwrite', async (entries, results) => {
+      const record = await requestToPromise(results.get(key) as IDBRequest<{ key: string; base64: string } | undefined>);
+      if (!record) {
+        return null;
+      }
+      entries.put({ key, size: decodedSize(record.base64), lastUsedAt: Date.now() } satisfies CacheEntryInfo);
+      return record.base64;
+    }),
+  set: (key, base64) =>
+    withTransaction('readwrite', (entries, results) => {
+      entries.put({ key, size: decodedSize(base64), lastUsedAt: Date.now() } satisfies CacheEntryInfo);
+      results.put({ key, base64 });
+    }),
+  entries: () =>
+    withTransaction('readonly', (entries) => requestToPromise(entries.getAll() as IDBRequest<CacheEntryInfo[]>)),
+  delete: (keys) =>
+    withTransaction('readwrite', (entries, results) => {
+      keys.forEach((key) => {
+        entries.delete(key);
+        results.delete(key);
+      });
+    }),
+  clear: () =>
+    withTransaction('readwrite', (entries, results) => {
+      entries.clear();
+      results.clear();
+    }),
+};
@@ -0,0 +1,66 @@
+import { isRetryableError } from './errors';
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first one. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+  /** Called before each retry; returning false gives up and rethrows the error, e.g. when a budget is used up. */
+  shouldRetry?: (attempt: number, error: unknown) => boolean;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+/**
+ * Waits for the given time, rejecting early with the signal's reason if it is aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs an operation, retrying retryable failures with exponential backoff and full jitter.
+ * Non-retryable errors and aborts are rethrown immediately.
+ * @param operation The operation to run; receives the 1-based attempt number.
+ * @param options Attempt limit, delay bounds and an optional abort signal.
+ * @returns The result of the first successful attempt.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (
+        attempt >= options.maxAttempts ||
+        options.signal?.aborted ||
+        !isRetryableError(error) ||
+        options.shouldRetry?.(attempt, error) === false
+      ) {
+        throw error;
+      }
+      const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.round(Math.random() * ceiling);
+      options.onRetry?.(attempt, error, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
@@ -0,0 +1,199 @@
+import { GeneratedImage } from '../types';
+import { NormalizedFrame } from './compositor';
+import { AnimationFrame, encodeGif } from '../utils/gif';
+import { encodeApng } from '../utils/png';
+import { createCanvas } from '../utils/imageUtils';
+
+export type TurntableFormat = 'gif' | 'apng' | 'webm';
+
+export const TURNTABLE_FORMATS: Record<TurntableFormat, { label: string; extension: string }> = {
+  gif: { label: 'Animated GIF', extension: 'gif' },
+  apng: { label: 'APNG', extension: 'png' },
+  webm: { label: 'WebM video', extension: 'webm' },
+};
+
+/**
+ * One frame of the turntable: a normalised view, possibly flipped to stand in for the opposite side.
+ */
+export interface TurntableFrame {
+  name: string;
+  canvas: HTMLCanvasElement;
+  mirrored: boolean;
+}
+
+export interface TurntableRenderOptions {
+  padding: number;
+  /** CSS colour to fill each frame with, or null for a transparent background. */
+  background: string | null;
+  /** Opacity (0-1) of the previous frame drawn behind the current one; 0 turns onion skinning off. */
+  onionSkin: number;
+}
+
+/** Matches ids of steps whose output shows the subject from one camera angle. */
+const VIEW_STEP_PATTERN = /view|three-quarter/i;
+
+/**
+ * Picks the images that show the subject from different angles, e.g. the front, side and back
+ * views of the built-in pipeline, in pipeline order. Falls back to every image if no step looks like a view.
+ */
+export const findViewImages = (images: GeneratedImage[]): GeneratedImage[] => {
+  const views = images.filter((image) => VIEW_STEP_PATTERN.test(image.stepId));
+  return views.length > 0 ? views : images;
+};
+
+/**
+ * Orders frames into one full rotation. With `mirror`, the views between the first and last are
+ * repeated flipped on the way back, so front, side and back turn into front, side, back and the
+ * other side.
+ */
+export const buildTurntableFrames = (frames: NormalizedFrame[], mirror: boolean): TurntableFrame[] => {
+  const forward = frames.map((frame) => ({ name: frame.name, canvas: frame.canvas, mirrored: false }));
+  if (!mirror || frames.length < 3) {
+    return forward;
+  }
+  const back = frames
+    .slice(1, -1)
+    .reverse()
+    .map((frame) => ({ name: `${frame.name} (mirrored)`, canvas: frame.canvas, mirrored: true }));
+  return [...forward, ...back];
+};
+
+/**
+ * Size every frame is drawn at: wide enough for the widest view, with the subjects standing on
+ * a shared ground line.
+ */
+export const turntableSize = (frames: TurntableFrame[], padding: number): { width: number; height: number } => ({
+  width: Math.max(1, ...frames.map((frame) => frame.canvas.width)) + padding * 2,
+  height: Math.max(1, ...frames.map((frame) => frame.canvas.height)) + padding * 2,
+});
+
+const drawView = (context: CanvasRenderingContext2D, frame: TurntableFrame, width: number, groundY: number) => {
+  const x = Math.round((width - frame.canvas.width) / 2);
+  const y = groundY - frame.canvas.height;
+  if (frame.mirrored) {
+    context.save();
+    context.translate(x + frame.canvas.width, y);
+    context.scale(-1, 1);
+    context.drawImage(frame.canvas, 0, 0);
+    context.restore();
+  } else {
+    context.drawImage(frame.canvas, x, y);
+  }
+};
+
+/**
+ * Draws frame `index` of the turntable onto `canvas`, which must already have the turntable size.
+ * @param frames Frames from buildTurntableFrames.
+ * @param index The frame to draw; the onion skin shows the one before it.
+ */
+export const drawTurntableFrame = (
+  canvas: HTMLCanvasElement,
+  frames: TurntableFrame[],
+  index: number,
+  options: TurntableRenderOptions,
+): void => {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  if (options.background) {
+    context.fillStyle = options.background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  const groundY = canvas.height - options.padding;
+  if (options.onionSkin > 0 && frames.length > 1) {
+    context.globalAlpha = options.onionSkin;
+    drawView(context, frames[(index - 1 + frames.length) % frames.length], canvas.width, groundY);
+    context.globalAlpha = 1;
+  }
+  drawView(context, frames[index], canvas.width, groundY);
+};
+
+/**
+ * Renders every frame to RGBA pixels for the image encoders.
+ * @param durations How long each frame is shown, in milliseconds.
+ */
+const renderAnimationFrames = (
+  frames: TurntableFrame[],
+  durations: number[],
+  options: TurntableRenderOptions,
+): { frames: AnimationFrame[]; width: number; height: number } => {
+  const { width, height } = turntableSize(frames, options.padding);
+  const { canvas, context } = createCanvas(width, height, { willReadFrequently: true });
+  return {
+    frames: frames.map((_, index) => {
+      drawTurntableFrame(canvas, frames, index, options);
+      return { pixels: context.getImageData(0, 0, width, height).data, delayMs: durations[index] };
+    }),
+    width,
+    height,
+  };
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Records one rotation as a WebM video with MediaRecorder. Frames are drawn in real time, so this
+ * takes as long as the rotation itself. Video has no alpha, so a transparent background is
+ * filled with white.
+ */
+const recordWebm = async (
+  frames: TurntableFrame[],
+  durations: number[],
+  options: TurntableRenderOptions,
+): Promise<Blob> => {
+  const mimeType = WEBM_TYPES.find((type) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('This browser cannot record WebM video. Export a GIF or APNG instead.');
+  }
+  const { width, height } = turntableSize(frames, options.padding);
+  // Most encoders need even dimensions.
+  const { canvas } = createCanvas(width + (width % 2), height + (height % 2));
+  const renderOptions = { ...options, background: options.background ?? '#ffffff' };
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  for (const [index, duration] of durations.entries()) {
+    drawTurntableFrame(canvas, frames, index, renderOptions);
+    track.requestFrame();
+    await new Promise((resolve) => setTimeout(resolve, duration));
+  }
+  recorder.stop();
+  await stopped;
+  track.stop();
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+/**
+ * Encodes one rotation of the turntable in the browser.
+ * @param frames Frames from buildTurntableFrames.
+ * @param durations How long each frame is shown, in milliseconds.
+ * @param options Layout of each frame; exports leave out the onion skin, which is a review aid.
+ * @returns The encoded animation.
+ */
+export const exportTurntable = async (
+  frames: TurntableFrame[],
+  durations: number[],
+  options: TurntableRenderOptions,
+  format: TurntableFormat,
+): Promise<Blob> => {
+  if (frames.length === 0) {
+    throw new Error('The turntable has no frames to export.');
+  }
+  const exportOptions = { ...options, onionSkin: 0 };
+  if (format === 'webm') {
+    return recordWebm(frames, durations, exportOptions);
+  }
+  const animation = renderAnimationFrames(frames, durations, exportOptions);
+  return format === 'gif'
+    ? encodeGif(animation.frames, animation.width, animation.height)
+    : encodeApng(animation.frames, animation.width, animation.height);
+};
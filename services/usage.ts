@@ -0,0 +1,188 @@
+import { TokenUsage, UsageTotals } from '../types';
+import { ImageGenerationError, isAbortError } from './errors';
+
+/**
+ * Price of a model in US dollars per million tokens.
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Published list prices at the time of writing. Image output is billed as output tokens.
+ * Models missing from the table (such as the offline mock) are estimated at zero.
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120 },
+};
+
+/**
+ * Limits for a single run of the pipeline over one source. Unset limits do not apply.
+ */
+export interface UsageBudget {
+  maxCalls?: number;
+  maxTokens?: number;
+}
+
+export const EMPTY_USAGE: UsageTotals = { calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+/**
+ * Adds the usage of one request to a running total.
+ * @param totals The total so far.
+ * @param usage Token counts of the request, or undefined if the provider reported none.
+ */
+export const addCall = (totals: UsageTotals, usage?: TokenUsage): UsageTotals => ({
+  calls: totals.calls + 1,
+  promptTokens: totals.promptTokens + (usage?.promptTokens ?? 0),
+  outputTokens: totals.outputTokens + (usage?.outputTokens ?? 0),
+  totalTokens: totals.totalTokens + (usage?.totalTokens ?? 0),
+});
+
+/**
+ * The usage of a provider request that failed: one call, plus the tokens the provider billed if
+ * it answered (e.g. a blocked prompt). Null for aborted requests, which are not counted.
+ */
+export const failedCallUsage = (error: unknown): UsageTotals | null =>
+  isAbortError(error) ? null : addCall(EMPTY_USAGE, error instanceof ImageGenerationError ? error.usage : undefined);
+
+export const sumUsage = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+  calls: a.calls + b.calls,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+});
+
+/**
+ * Adds usage to one model's entry of a per-model breakdown.
+ */
+export const addModelUsage = (
+  byModel: Record<string, UsageTotals>,
+  model: string,
+  usage: UsageTotals,
+): Record<string, UsageTotals> => ({ ...byModel, [model]: sumUsage(byModel[model] ?? EMPTY_USAGE, usage) });
+
+/**
+ * Sums a per-model breakdown, e.g. to show one total for a run.
+ */
+export const totalUsage = (byModel: Record<string, UsageTotals>): UsageTotals =>
+  Object.values(byModel).reduce(sumUsage, EMPTY_USAGE);
+
+/**
+ * Estimates the cost in US dollars of some usage of one model.
+ */
+export const estimateCost = (usage: TokenUsage, model: string, prices: PriceTable): number => {
+  const price = prices[model];
+  if (!price) {
+    return 0;
+  }
+  return (usage.promptTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+/**
+ * Estimates the cost in US dollars of a per-model breakdown.
+ */
+export const estimateTotalCost = (byModel: Record<string, UsageTotals>, prices: PriceTable): number =>
+  Object.entries(byModel).reduce((sum, [model, usage]) => sum + estimateCost(usage, model, prices), 0);
+
+/**
+ * Formats a dollar estimate with enough precision to show the cost of a single image.
+ */
+export const formatCost = (dollars: number): string =>
+  `$${dollars < 1 ? dollars.toFixed(3) : dollars.toFixed(2)}`;
+
+/**
+ * Explains why a run of `plannedCalls` requests cannot start within the budget.
+ * @returns The reason, or null if the run fits.
+ */
+export const checkBudgetBeforeRun = (plannedCalls: number, budget: UsageBudget): string | null =>
+  budget.maxCalls !== undefined && plannedCalls > budget.maxCalls
+    ? `This run needs at least ${plannedCalls} calls but the budget allows ${budget.maxCalls} per run.`
+    : null;
+
+/**
+ * Whether starting `nextCalls` more requests could take a run past its budget. Tokens of
+ * upcoming requests are projected from the average of the requests made so far.
+ * @param used Usage of the run so far.
+ * @param nextCalls Requests that would be in flight, including the one about to start.
+ */
+export const wouldExceedBudget = (used: UsageTotals, nextCalls: number, budget: UsageBudget): boolean => {
+  if (budget.maxCalls !== undefined && used.calls + nextCalls > budget.maxCalls) {
+    return true;
+  }
+  if (budget.maxTokens !== undefined) {
+    const perCall = used.calls > 0 ? used.totalTokens / used.calls : 0;
+    return used.totalTokens + perCall * nextCalls > budget.maxTokens;
+  }
+  return false;
+};
+
+const DAILY_USAGE_KEY = 'gemini-image-studio:daily-usage';
+/** Days of history kept in the daily ledger. */
+const DAILY_USAGE_DAYS = 31;
+
+export type DailyUsage = Record<string, Record<string, UsageTotals>>;
+
+/** Local calendar date, e.g. "2025-03-14", that daily usage is grouped by. */
+export const usageDay = (date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Reads the usage ledger kept in localStorage: per day, then per model. The ledger is per
+ * browser, so it only covers requests made from this browser.
+ */
+export const loadDailyUsage = (): DailyUsage => {
+  try {
+    return JSON.parse(localStorage.getItem(DAILY_USAGE_KEY) ?? '{}') as DailyUsage;
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Adds usage to today's entry of the ledger, dropping days older than the retention window.
+ * @returns The updated ledger.
+ */
+export const recordDailyUsage = (model: string, usage: UsageTotals, date = new Date()): DailyUsage => {
+  const ledger = loadDailyUsage();
+  const day = usageDay(date);
+  ledger[day] = addModelUsage(ledger[day] ?? {}, model, usage);
+  const kept = Object.keys(ledger).sort().slice(-DAILY_USAGE_DAYS);
+  const trimmed = Object.fromEntries(kept.map((key) => [key, ledger[key]]));
+  try {
+    localStorage.setItem(DAILY_USAGE_KEY, JSON.stringify(trimmed));
+  } catch (error) {
+    console.warn('Failed to save daily usage:', error);
+  }
+  return trimmed;
+};
+
+const USAGE_SETTINGS_KEY = 'gemini-image-studio:usage-settings';
+
+export interface UsageSettings {
+  prices: PriceTable;
+  budget: UsageBudget;
+}
+
+/**
+ * Reads the price table and budget saved in this browser, falling back to the defaults.
+ */
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(USAGE_SETTINGS_KEY) ?? '{}') as Partial<UsageSettings>;
+    return { prices: saved.prices ?? DEFAULT_PRICE_TABLE, budget: saved.budget ?? {} };
+  } catch {
+    return { prices: DEFAULT_PRICE_TABLE, budget: {} };
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  try {
+    localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save usage settings:', error);
+  }
+};
@@ -0,0 +1,202 @@
+import { StepImage, StepValidation, ValidationCheckId, ValidationCheckResult } from '../types';
+import { DEFAULT_CHROMA_KEY_OPTIONS, applyChromaKey, parseHexColor } from './chromaKey';
+import { createCanvas, loadImage } from '../utils/imageUtils';
+import { isPlaceholder } from './promptTemplate';
+
+/** Width of the frame along the edges that is sampled for the background check, as a fraction of the shorter side. */
+const BORDER_FRACTION = 0.02;
+/** Largest possible distance between two RGB colours. */
+const MAX_RGB_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+export const VALIDATION_CHECK_LABELS: Record<ValidationCheckId, string> = {
+  background: 'Background',
+  margins: 'Subject margins',
+  aspectRatio: 'Aspect ratio',
+  resolution: 'Resolution',
+};
+
+/**
+ * Settings used when a check is switched on in the editor.
+ */
+export const DEFAULT_STEP_VALIDATION: Required<StepValidation> = {
+  maxRetries: 1,
+  background: { color: '#00ff00', minCoverage: 0.9, maxDeviation: 0.15 },
+  margins: { minMargin: 0.02 },
+  aspectRatio: { tolerance: 0.02 },
+  resolution: { tolerance: 0.05 },
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Runs the configured checks against raw RGBA pixels of a generated image.
+ * @param pixels RGBA pixel data of the output; not modified.
+ * @param width Output width in pixels.
+ * @param height Output height in pixels.
+ * @param source Dimensions of the image the output should match.
+ * @param validation The step's check settings.
+ * @returns One result per configured check.
+ */
+export const validatePixels = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  source: { width: number; height: number },
+  validation: StepValidation,
+): ValidationCheckResult[] => {
+  const results: ValidationCheckResult[] = [];
+  const keyColor = validation.background?.color ?? DEFAULT_CHROMA_KEY_OPTIONS.keyColor;
+  // Keying a copy tells background pixels (alpha 0) apart from the subject and gives its bounds.
+  const keyed = new Uint8ClampedArray(pixels);
+  const bounds =
+    validation.background || validation.margins
+      ? applyChromaKey(keyed, width, height, { ...DEFAULT_CHROMA_KEY_OPTIONS, keyColor, spillSuppression: 0 })
+      : null;
+
+  if (validation.background) {
+    const { minCoverage, maxDeviation } = validation.background;
+    const [keyR, keyG, keyB] = parseHexColor(keyColor);
+    const border = Math.max(1, Math.round(Math.min(width, height) * BORDER_FRACTION));
+    let sampled = 0;
+    let matched = 0;
+    let deviation = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (x >= border && x < width - border && y >= border && y < height - border) {
+          continue;
+        }
+        const i = (y * width + x) * 4;
+        sampled++;
+        if (keyed[i + 3] === 0) {
+          matched++;
+          deviation += Math.hypot(pixels[i] - keyR, pixels[i + 1] - keyG, pixels[i + 2] - keyB) / MAX_RGB_DISTANCE;
+        }
+      }
+    }
+    const coverage = sampled > 0 ? matched / sampled : 0;
+    const meanDeviation = matched > 0 ? deviation / matched : 1;
+    if (coverage < minCoverage) {
+      results.push({
+        check: 'background',
+        passed: false,
+        message: `Background covers ${percent(coverage)} of the border (needs ${percent(minCoverage)})`,
+      });
+    } else if (meanDeviation > maxDeviation) {
+      results.push({
+        check: 'background',
+        passed: false,
+        message: `Background is ${percent(meanDeviation)} off ${keyColor} on average (allowed ${percent(maxDeviation)})`,
+      });
+    } else {
+      results.push({ check: 'background', passed: true, message: `Background covers ${percent(coverage)} of the border` });
+    }
+  }
+
+  if (validation.margins) {
+    const { minMargin } = validation.margins;
+    if (!bounds) {
+      results.push({ check: 'margins', passed: false, message: 'No subject found in front of the background' });
+    } else {
+      const margin = Math.min(
+        bounds.x / width,
+        bounds.y / height,
+        (width - bounds.x - bounds.width) / width,
+        (height - bounds.y - bounds.height) / height,
+      );
+      results.push({
+        check: 'margins',
+        passed: margin >= minMargin,
+        message:
+          margin >= minMargin
+            ? `Subject is at least ${percent(margin)} from every edge`
+            : `Subject is ${percent(margin)} from an edge (needs ${percent(minMargin)}); it may be cropped`,
+      });
+    }
+  }
+
+  if (validation.aspectRatio) {
+    const { tolerance } = validation.aspectRatio;
+    const expected = source.width / source.height;
+    const actual = width / height;
+    const difference = Math.abs(actual - expected) / expected;
+    results.push({
+      check: 'aspectRatio',
+      passed: difference <= tolerance,
+      message: `Aspect ratio ${actual.toFixed(2)} vs ${expected.toFixed(2)} in the source`,
+    });
+  }
+
+  if (validation.resolution) {
+    const { tolerance } = validation.resolution;
+    const difference = Math.max(
+      Math.abs(width - source.width) / source.width,
+      Math.abs(height - source.height) / source.height,
+    );
+    results.push({
+      check: 'resolution',
+      passed: difference <= tolerance,
+      message: `Output is ${width}×${height}, source is ${source.width}×${source.height}`,
+    });
+  }
+
+  return results;
+};
+
+/**
+ * Decodes a step's output and the source image and runs the step's checks on the output.
+ * @param validation The step's check settings.
+ * @param output The generated image.
+ * @param source The image the output is compared against.
+ * @returns One result per configured check.
+ */
+export const validateStepOutput = async (
+  validation: StepValidation,
+  output: StepImage,
+  source: StepImage,
+): Promise<ValidationCheckResult[]> => {
+  const [outputImage, sourceImage] = await Promise.all([
+    loadImage(`data:${output.mimeType};base64,${output.base64}`),
+    loadImage(`data:${source.mimeType};base64,${source.base64}`),
+  ]);
+  const { canvas, context } = createCanvas(outputImage.naturalWidth, outputImage.naturalHeight, {
+    willReadFrequently: true,
+  });
+  context.drawImage(outputImage, 0, 0);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  return validatePixels(data, canvas.width, canvas.height, {
+    width: sourceImage.naturalWidth,
+    height: sourceImage.naturalHeight,
+  }, validation);
+};
+
+/**
+ * Reads step validation settings from untrusted JSON, dropping anything malformed.
+ */
+export const parseStepValidation = (value: unknown): StepValidation | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  const number = (candidate: unknown, fallback: number) =>
+    typeof candidate === 'number' && Number.isFinite(candidate) ? candidate : fallback;
+  const section = <K extends ValidationCheckId>(key: K): StepValidation[K] | undefined => {
+    const settings = raw[key];
+    if (!settings || typeof settings !== 'object') {
+      return undefined;
+    }
+    const defaults = DEFAULT_STEP_VALIDATION[key] as Record<string, number | string>;
+    return Object.fromEntries(
+      Object.entries(defaults).map(([field, fallback]) => {
+        const candidate = (settings as Record<string, unknown>)[field];
+        return [field, typeof fallback === 'string' ? (typeof candidate === 'string' && (/^#[0-9a-f]{6}$/i.test(candidate) || isPlaceholder(candidate)) ? candidate : fallback) : number(candidate, fallback)];
+      }),
+    ) as StepValidation[K];
+  };
+  return {
+    maxRetries: Math.max(0, Math.round(number(raw.maxRetries, DEFAULT_STEP_VALIDATION.maxRetries))),
+    background: section('background'),
+    margins: section('margins'),
+    aspectRatio: section('aspectRatio'),
+    resolution: section('resolution'),
+  };
+};
@@ -0,0 +1,280 @@
+/**
+ * Drives the built-in seven-step character sheet through the app, offline. Gemini requests are
+ * answered from tests/fixtures/gemini/character-sheet.json, a synthetic fixture: it was written
+ * through the recording transport against a stand-in that answers every request with a small
+ * placeholder image, not against the API. It covers the app's requests and how it chains, retries
+ * and fails steps, not the API's answers, which is why the failure tests below use responses in the
+ * shape the API documents. Recording against the API replaces it with a real session; do that, or
+ * update the prompts in it, whenever a built-in prompt changes, since the changed request no longer
+ * matches and the tests fail:
+ *
+ *   GEMINI_API_KEY=... npm run sheet -- tests/fixtures/source <out-dir> --no-cache --record tests/fixtures/gemini/character-sheet.json
+ */
+import React from 'react';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from '../App';
+import { DEFAULT_PIPELINE, SOURCE_INPUT_ID } from '../constants';
+import {
+  GeminiExchange,
+  GeminiFixture,
+  GeminiReplayTransport,
+  RecordedGeminiRequest,
+  createReplayTransport,
+  describeGeminiRequest,
+  parseGeminiFixture,
+  setGeminiTransport,
+} from '../services/geminiService';
+import { renderPipeline } from '../services/promptTemplate';
+import { indexedDbCacheStore } from '../services/resultCache';
+import { base64ToBytes } from '../utils/fileUtils';
+import { sha256Hex } from '../utils/hash';
+
+vi.mock('../services/validation', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/validation')>()),
+  // jsdom cannot decode images, so the pixel-level quality checks always pass here.
+  validateStepOutput: async () => [],
+}));
+
+vi.mock('../services/preprocess', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/preprocess')>()),
+  // Nor can it decode uploads to scale or crop them; the fixture source needs neither.
+  preprocessUpload: async (file: File) => file,
+}));
+
+const SOURCE_BYTES = readFileSync(path.join(__dirname, 'fixtures/source/character.png'));
+const FIXTURE = parseGeminiFixture(readFileSync(path.join(__dirname, 'fixtures/gemini/character-sheet.json'), 'utf8'));
+const PIPELINE = renderPipeline(DEFAULT_PIPELINE, {});
+const RUN_TIMEOUT_MS = 10000;
+
+/** A prompt blocked by the safety filters: no candidates, only feedback and the prompt's usage. */
+const BLOCKED_PROMPT_RESPONSE = {
+  promptFeedback: {
+    blockReason: 'SAFETY',
+    safetyRatings: [
+      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', probability: 'NEGLIGIBLE' },
+      { category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'NEGLIGIBLE' },
+      { category: 'HARM_CATEGORY_HARASSMENT', probability: 'NEGLIGIBLE' },
+      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH' },
+    ],
+  },
+  usageMetadata: {
+    promptTokenCount: 1323,
+    totalTokenCount: 1323,
+    promptTokensDetails: [
+      { modality: 'TEXT', tokenCount: 33 },
+      { modality: 'IMAGE', tokenCount: 1290 },
+    ],
+  },
+  modelVersion: 'gemini-2.5-flash-image',
+  responseId: 'bGZ0aHNhZmV0eWJsb2Nr',
+};
+
+/** The model answered in words only, as it does when it declines an edit. */
+const TEXT_ONLY_RESPONSE = {
+  candidates: [
+    {
+      content: { role: 'model', parts: [{ text: "I can't change the pose of this image while keeping the subject the same." }] },
+      finishReason: 'STOP',
+      index: 0,
+    },
+  ],
+  usageMetadata: { promptTokenCount: 1326, candidatesTokenCount: 17, totalTokenCount: 1343 },
+  modelVersion: 'gemini-2.5-flash-image',
+  responseId: 'dGV4dG9ubHlyZXNwb25zZQ',
+};
+
+/** The generated image was withheld by the safety filters: a candidate without content. */
+const IMAGE_SAFETY_RESPONSE = {
+  candidates: [{ finishReason: 'IMAGE_SAFETY', index: 0 }],
+  usageMetadata: { promptTokenCount: 1326, totalTokenCount: 1326 },
+  modelVersion: 'gemini-2.5-flash-image',
+  responseId: 'aW1hZ2VzYWZldHk',
+};
+
+const promptOf = (request: RecordedGeminiRequest) => {
+  const last = request.parts[request.parts.length - 1];
+  return 'text' in last ? last.text : '';
+};
+
+const stepOf = (request: RecordedGeminiRequest) => {
+  const step = PIPELINE.steps.find((candidate) => candidate.prompt === promptOf(request));
+  if (!step) {
+    throw new Error(`Request does not belong to a built-in step: ${promptOf(request)}`);
+  }
+  return step;
+};
+
+const responseImage = (exchange: GeminiExchange): string => {
+  const { candidates } = exchange.response as { candidates: { content: { parts: { inlineData: { data: string } }[] } }[] };
+  return candidates[0].content.parts[0].inlineData.data;
+};
+
+/**
+ * Copies a fixture with the exchange of one step replaced.
+ * @param replace Returns the step's exchanges; an empty list drops the step from the fixture.
+ */
+const withStep = (
+  stepId: string,
+  replace: (exchange: GeminiExchange) => GeminiExchange[],
+  fixture: GeminiFixture = FIXTURE,
+): GeminiFixture => ({
+  ...fixture,
+  exchanges: fixture.exchanges.flatMap((exchange) => (stepOf(exchange.request).id === stepId ? replace(exchange) : [exchange])),
+});
+
+let replay: GeminiReplayTransport;
+/** Requests in the order the app sent them. */
+let requests: RecordedGeminiRequest[];
+
+const useFixture = (fixture: GeminiFixture) => {
+  replay = createReplayTransport(fixture);
+  setGeminiTransport({
+    generateContent: async (request) => {
+      requests.push(await describeGeminiRequest(request));
+      return replay.generateContent(request);
+    },
+  });
+};
+
+const stepCard = (name: string) => screen.getByRole('heading', { level: 3, name }).parentElement!;
+
+/**
+ * Uploads the fixture source, starts the run and waits until no step is queued or generating.
+ */
+const runCharacterSheet = async () => {
+  const { container } = render(<App />);
+  const input = container.querySelector<HTMLInputElement>('input[type="file"][multiple]')!;
+  fireEvent.change(input, { target: { files: [new File([SOURCE_BYTES], 'character.png', { type: 'image/png' })] } });
+  fireEvent.click(await screen.findByRole('button', { name: 'Start Image Transformations' }));
+  await waitFor(
+    () => {
+      expect(requests.length).toBeGreaterThan(0);
+      expect(screen.queryByText('Queued')).toBeNull();
+      expect(screen.queryByText('Generating...')).toBeNull();
+      expect(screen.getByRole('button', { name: 'Start Image Transformations' })).toBeTruthy();
+    },
+    { timeout: RUN_TIMEOUT_MS },
+  );
+};
+
+describe('character sheet run', () => {
+  beforeEach(async () => {
+    requests = [];
+    await indexedDbCacheStore.clear();
+    useFixture(FIXTURE);
+  });
+
+  afterEach(() => {
+    setGeminiTransport();
+    // Requests the fixture does not cover are failures even where the app only shows a failed step.
+    expect(replay.unmatched.map((error) => error.message)).toEqual([]);
+  });
+
+  it('runs every step once, each after the step it builds on', async () => {
+    await runCharacterSheet();
+
+    const order = requests.map((request) => stepOf(request).id);
+    expect([...order].sort()).toEqual(PIPELINE.steps.map((step) => step.id).sort());
+    expect(order[0]).toBe('green-screen');
+    expect(order.indexOf('front-view')).toBeLessThan(order.indexOf('side-view'));
+    expect(order.indexOf('side-view')).toBeLessThan(order.indexOf('back-view'));
+    for (const step of PIPELINE.steps) {
+      if (step.input !== SOURCE_INPUT_ID) {
+        expect(order.indexOf(step.input), `${step.id} ran before its input`).toBeLessThan(order.indexOf(step.id));
+      }
+    }
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+
+  it('feeds each step the output of its input step', async () => {
+    await runCharacterSheet();
+
+    const outputHashes: Record<string, string> = { [SOURCE_INPUT_ID]: await sha256Hex(SOURCE_BYTES) };
+    for (const exchange of FIXTURE.exchanges) {
+      outputHashes[stepOf(exchange.request).id] = await sha256Hex(base64ToBytes(responseImage(exchange)));
+    }
+    const inputHash = (stepId: string) => {
+      const [image] = requests.find((request) => stepOf(request).id === stepId)!.parts;
+      return 'image' in image ? image.image.sha256 : null;
+    };
+
+    expect(inputHash('green-screen')).toBe(outputHashes[SOURCE_INPUT_ID]);
+    for (const stepId of ['tpose-front', 'tpose-side', 'tpose-back']) {
+      expect(inputHash(stepId), stepId).toBe(outputHashes['green-screen']);
+    }
+    expect(inputHash('front-view')).toBe(outputHashes['green-screen']);
+    expect(inputHash('side-view')).toBe(outputHashes['front-view']);
+    expect(inputHash('back-view')).toBe(outputHashes['side-view']);
+
+    // Each card shows the image its request returned.
+    for (const exchange of FIXTURE.exchanges) {
+      const step = stepOf(exchange.request);
+      const image = within(stepCard(step.name).parentElement!).getByAltText(step.name) as HTMLImageElement;
+      expect(image.src).toBe(`data:image/png;base64,${responseImage(exchange)}`);
+    }
+  });
+
+  it('fails a blocked step, cancels the steps chained from it and finishes the rest', async () => {
+    useFixture(withStep('side-view', ({ request }) => [{ request, response: BLOCKED_PROMPT_RESPONSE }]));
+    await runCharacterSheet();
+
+    const side = stepCard(PIPELINE.steps.find((step) => step.id === 'side-view')!.name);
+    expect(within(side).getByText('Failed')).toBeTruthy();
+    expect(within(side).getByText('Prompt was blocked (SAFETY).')).toBeTruthy();
+    expect(within(stepCard(PIPELINE.steps.find((step) => step.id === 'back-view')!.name)).getByText('Cancelled')).toBeTruthy();
+    expect(requests.map((request) => stepOf(request).id)).not.toContain('back-view');
+    for (const step of PIPELINE.steps.filter(({ id }) => id.startsWith('tpose-'))) {
+      expect(screen.getByAltText(step.name)).toBeTruthy();
+    }
+    expect(screen.getByRole('alert').textContent).toContain('1 source has failed steps');
+  });
+
+  it('fails steps whose response has no image', async () => {
+    useFixture(
+      withStep(
+        'tpose-front',
+        ({ request }) => [{ request, response: TEXT_ONLY_RESPONSE }],
+        withStep('tpose-back', ({ request }) => [{ request, response: IMAGE_SAFETY_RESPONSE }]),
+      ),
+    );
+    await runCharacterSheet();
+
+    const cardOf = (stepId: string) => stepCard(PIPELINE.steps.find((step) => step.id === stepId)!.name);
+    expect(within(cardOf('tpose-front')).getByText('No image found in the Gemini API response (finish reason: STOP).')).toBeTruthy();
+    expect(within(cardOf('tpose-back')).getByText('Generation was blocked (IMAGE_SAFETY).')).toBeTruthy();
+    // Neither is worth retrying: the same request would get the same answer.
+    expect(requests.filter((request) => stepOf(request).id.startsWith('tpose-'))).toHaveLength(3);
+    expect(screen.getByAltText(PIPELINE.steps.find((step) => step.id === 'back-view')!.name)).toBeTruthy();
+    expect(screen.getByRole('alert').textContent).toContain('1 source has failed steps');
+  });
+
+  it('retries a transient server error and completes the run', async () => {
+    useFixture(
+      withStep('tpose-side', (exchange) => [
+        { request: exchange.request, error: { message: 'The service is currently unavailable.', status: 503 } },
+        exchange,
+      ]),
+    );
+    await runCharacterSheet();
+
+    expect(requests.filter((request) => stepOf(request).id === 'tpose-side')).toHaveLength(2);
+    for (const step of PIPELINE.steps) {
+      expect(screen.getByAltText(step.name)).toBeTruthy();
+    }
+    expect(screen.queryByRole('alert')).toBeNull();
+  }, RUN_TIMEOUT_MS + 5000);
+
+  it('fails the step of a request the fixture does not cover', async () => {
+    useFixture(withStep('tpose-back', () => []));
+    await runCharacterSheet();
+
+    const step = PIPELINE.steps.find(({ id }) => id === 'tpose-back')!;
+    expect(within(stepCard(step.name)).getByText(/^No recorded Gemini response/)).toBeTruthy();
+    expect(replay.unmatched).toHaveLength(1);
+    expect(promptOf(replay.unmatched[0].request as RecordedGeminiRequest)).toBe(step.prompt);
+    replay.unmatched.splice(0);
+  });
+});
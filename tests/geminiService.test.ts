@@ -0,0 +1,51 @@
+import { ApiError, GenerateContentResponse } from '@google/genai';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  GeminiFixture,
+  GeminiTransport,
+  createRecordingTransport,
+  createReplayTransport,
+  editImage,
+  parseGeminiFixture,
+  setGeminiTransport,
+} from '../services/geminiService';
+import { QuotaExceededError } from '../services/errors';
+
+const IMAGE = { base64: 'aW1hZ2U=', mimeType: 'image/png' };
+
+const respondWith = (data: string): GenerateContentResponse =>
+  Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { parts: [{ inlineData: { mimeType: 'image/png', data } }] } }],
+  });
+
+describe('Gemini fixtures', () => {
+  afterEach(() => setGeminiTransport());
+
+  it('replays what was recorded, including errors', async () => {
+    const fixture: GeminiFixture = { version: 1, exchanges: [] };
+    const answers = [() => Promise.reject(new ApiError({ message: 'Slow down', status: 429 })), () => Promise.resolve(respondWith('b3V0'))];
+    const live: GeminiTransport = { generateContent: () => answers.shift()!() };
+    setGeminiTransport(createRecordingTransport(live, fixture));
+    await expect(editImage(IMAGE.base64, IMAGE.mimeType, 'Make it blue')).rejects.toBeInstanceOf(QuotaExceededError);
+    await expect(editImage(IMAGE.base64, IMAGE.mimeType, 'Make it blue')).resolves.toMatchObject({ base64: 'b3V0' });
+
+    const saved = parseGeminiFixture(JSON.stringify(fixture));
+    expect(saved.exchanges).toHaveLength(2);
+    expect(saved.exchanges[0].request.parts[0]).toEqual({
+      image: { mimeType: 'image/png', sha256: expect.stringMatching(/^[0-9a-f]{64}$/) },
+    });
+
+    setGeminiTransport(createReplayTransport(saved));
+    await expect(editImage(IMAGE.base64, IMAGE.mimeType, 'Make it blue')).rejects.toBeInstanceOf(QuotaExceededError);
+    await expect(editImage(IMAGE.base64, IMAGE.mimeType, 'Make it blue')).resolves.toMatchObject({ base64: 'b3V0' });
+    // The last exchange keeps answering once the recorded ones are used up.
+    await expect(editImage(IMAGE.base64, IMAGE.mimeType, 'Make it blue')).resolves.toMatchObject({ base64: 'b3V0' });
+  });
+
+  it('rejects requests the fixture does not have', async () => {
+    const replay = createReplayTransport({ version: 1, exchanges: [] });
+    setGeminiTransport(replay);
+    await expect(editImage(IMAGE.base64, IMAGE.mimeType, 'Make it red')).rejects.toThrow(/No recorded Gemini response/);
+    expect(replay.unmatched).toHaveLength(1);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { createDatabaseOpener, requestToPromise, runTransaction } from '../utils/indexedDb';
+
+const openDatabase = createDatabaseOpener('indexed-db-test', 1, { items: 'id' }, 'test database');
+
+describe('runTransaction', () => {
+  it('commits what the work wrote and resolves with its result', async () => {
+    const db = await openDatabase();
+    await expect(runTransaction(db, ['items'], 'readwrite', (items) => requestToPromise(items.put({ id: 'a' })))).resolves.toBe('a');
+    await expect(runTransaction(db, ['items'], 'readonly', (items) => requestToPromise(items.get('a')))).resolves.toEqual({ id: 'a' });
+  });
+
+  it('rejects with the failure of the work and writes nothing', async () => {
+    const db = await openDatabase();
+    const failure = new Error('work failed');
+    await expect(
+      runTransaction(db, ['items'], 'readwrite', async (items) => {
+        items.put({ id: 'b' });
+        throw failure;
+      }),
+    ).rejects.toBe(failure);
+    await expect(runTransaction(db, ['items'], 'readonly', (items) => requestToPromise(items.get('b')))).resolves.toBeUndefined();
+  });
+});
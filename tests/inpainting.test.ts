@@ -0,0 +1,22 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { compositeMaskedPixels } from '../services/inpainting';
+
+const BLACK = [0, 0, 0, 255];
+const WHITE = [255, 255, 255, 255];
+const GREY = [128, 128, 128, 255];
+
+describe('compositeMaskedPixels', () => {
+  it('keeps pixels outside the mask, replaces those inside and mixes those on grey', () => {
+    // Opaque, semi-transparent and fully transparent originals outside the mask, then one pixel each inside and on its edge.
+    const original = Uint8ClampedArray.from([10, 20, 30, 255, 200, 100, 50, 77, 1, 2, 3, 0, 10, 20, 30, 255, 0, 0, 0, 255]);
+    const generated = Uint8ClampedArray.from([99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 250, 240, 230, 128, 200, 100, 50, 255]);
+    const mask = Uint8ClampedArray.from([...BLACK, ...BLACK, ...BLACK, ...WHITE, ...GREY]);
+
+    compositeMaskedPixels(original, generated, mask);
+
+    expect([...original.slice(0, 12)]).toEqual([10, 20, 30, 255, 200, 100, 50, 77, 1, 2, 3, 0]);
+    expect([...original.slice(12, 16)]).toEqual([250, 240, 230, 128]);
+    expect([...original.slice(16, 20)]).toEqual([100, 50, 25, 255]);
+  });
+});
@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { SOURCE_INPUT_ID } from '../constants';
+import { NoImagePartError, TransientNetworkError } from '../services/errors';
+import { createGeneratedImage, findStaleSteps, runPipeline } from '../services/pipelineService';
+import { ImageProvider, PipelineStep, ProviderImage, ReferenceImage } from '../types';
+
+const OUTPUT = { base64: 'aW1hZ2U=', mimeType: 'image/png' };
+const STEPS: PipelineStep[] = [
+  { id: 'front', name: 'Front', description: '', prompt: 'Front', input: SOURCE_INPUT_ID, references: ['front photo'] },
+  { id: 'side', name: 'Side', description: '', prompt: 'Side', input: 'front' },
+];
+const FRONT_PHOTO: ReferenceImage = { id: 'ref-1', label: 'front photo', name: 'front.png', dataUrl: 'data:image/png;base64,' };
+
+describe('findStaleSteps', () => {
+  const front = createGeneratedImage(STEPS[0], OUTPUT, {
+    providerId: 'mock',
+    model: 'mock',
+    references: [{ id: FRONT_PHOTO.id, label: FRONT_PHOTO.label }],
+  });
+  const side = createGeneratedImage(STEPS[1], OUTPUT, { providerId: 'mock', model: 'mock', inputImageId: front.id });
+
+  it('treats outputs made from the current inputs and references as fresh', () => {
+    expect(findStaleSteps(STEPS, [front, side], [FRONT_PHOTO])).toEqual([]);
+  });
+
+  it('flags a step whose selected references changed, and the steps chained from it', () => {
+    expect(findStaleSteps(STEPS, [front, side], [])).toEqual(['front', 'side']);
+    expect(findStaleSteps(STEPS, [front, side], [{ ...FRONT_PHOTO, label: 'side photo' }])).toEqual(['front', 'side']);
+    expect(findStaleSteps(STEPS, [front, side], [{ ...FRONT_PHOTO, id: 'ref-2' }])).toEqual(['front', 'side']);
+  });
+
+  it('flags a step made from an input version that is no longer preferred', () => {
+    const newFront = { ...front, id: 'front-2' };
+    expect(findStaleSteps(STEPS, [newFront, side], [FRONT_PHOTO])).toEqual(['side']);
+  });
+});
+
+describe('runPipeline usage', () => {
+  const BLOCKED_USAGE = { promptTokens: 1323, outputTokens: 0, totalTokens: 1323 };
+  const IMAGE_USAGE = { promptTokens: 1300, outputTokens: 1290, totalTokens: 2590 };
+  const pipeline = { id: 'test', name: 'Test', steps: [STEPS[0]] };
+
+  /** A provider that fails with each of `failures` in turn, then returns an image. */
+  const failingProvider = (failures: Error[]): ImageProvider => {
+    const remaining = [...failures];
+    const editImage = async (): Promise<ProviderImage> => {
+      const failure = remaining.shift();
+      if (failure) {
+        throw failure;
+      }
+      return { ...OUTPUT, usage: IMAGE_USAGE };
+    };
+    return { id: 'mock', name: 'Mock', models: ['mock'], editImage, generateImageFromText: editImage };
+  };
+  const retry = { maxAttempts: 4, baseDelayMs: 0, maxDelayMs: 0 };
+
+  it('counts retried requests and the tokens of blocked ones', async () => {
+    const provider = failingProvider([new TransientNetworkError('Connection reset')]);
+    const result = await runPipeline(pipeline, OUTPUT, { provider, model: 'mock', retry });
+    expect(result.usage).toEqual({ calls: 2, ...IMAGE_USAGE });
+
+    const blocked = failingProvider([new NoImagePartError('Blocked', 'SAFETY', BLOCKED_USAGE)]);
+    const blockedResult = await runPipeline(pipeline, OUTPUT, { provider: blocked, model: 'mock', retry });
+    expect(blockedResult.failures.front).toBeInstanceOf(NoImagePartError);
+    expect(blockedResult.usage).toEqual({ calls: 1, ...BLOCKED_USAGE });
+  });
+
+  it('stops retrying once another request would go over the call limit', async () => {
+    const provider = failingProvider([1, 2, 3].map((attempt) => new TransientNetworkError(`Attempt ${attempt} failed`)));
+    const result = await runPipeline(pipeline, OUTPUT, { provider, model: 'mock', retry, budget: { maxCalls: 2 } });
+    expect(result.failures.front).toEqual(new TransientNetworkError('Attempt 2 failed'));
+    expect(result.usage.calls).toBe(2);
+  });
+});
@@ -0,0 +1,57 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { MAX_UPLOAD_BYTES, checkUpload, clampCrop } from '../services/preprocess';
+import { UploadRejectedError } from '../services/errors';
+import { readJpegOrientation } from '../utils/exif';
+
+/** A JPEG header with an Exif segment whose IFD0 holds only the orientation tag. */
+const jpegWithOrientation = (orientation: number, littleEndian: boolean): Uint8Array => {
+  const tiff = new DataView(new ArrayBuffer(26));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian); // IFD0 right after the header
+  tiff.setUint16(8, 1, littleEndian); // One entry
+  tiff.setUint16(10, 0x0112, littleEndian);
+  tiff.setUint16(12, 3, littleEndian); // SHORT
+  tiff.setUint32(14, 1, littleEndian);
+  tiff.setUint16(18, orientation, littleEndian);
+  const payload = [...new TextEncoder().encode('Exif'), 0, 0, ...new Uint8Array(tiff.buffer)];
+  const length = payload.length + 2;
+  return Uint8Array.from([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...payload, 0xff, 0xd9]);
+};
+
+describe('upload checks', () => {
+  it('detects the format from the bytes rather than the name', async () => {
+    const gif = new File([new TextEncoder().encode('GIF89a')], 'photo.png', { type: 'image/png' });
+    await expect(checkUpload(gif)).resolves.toBe('image/gif');
+  });
+
+  it('rejects files that are not images', async () => {
+    const text = new File(['hello'], 'photo.png', { type: 'image/png' });
+    await expect(checkUpload(text)).rejects.toThrow(UploadRejectedError);
+  });
+
+  it('rejects files over the size limit', async () => {
+    const large = new File([new Uint8Array(MAX_UPLOAD_BYTES + 1)], 'large.png');
+    await expect(checkUpload(large)).rejects.toThrow(/at most 10\.0MB/);
+  });
+});
+
+describe('readJpegOrientation', () => {
+  it('reads the orientation in either byte order', () => {
+    expect(readJpegOrientation(jpegWithOrientation(6, true))).toBe(6);
+    expect(readJpegOrientation(jpegWithOrientation(8, false))).toBe(8);
+  });
+
+  it('returns null without Exif data', () => {
+    expect(readJpegOrientation(Uint8Array.from([0xff, 0xd8, 0xff, 0xd9]))).toBeNull();
+    expect(readJpegOrientation(new TextEncoder().encode('GIF89a'))).toBeNull();
+  });
+});
+
+describe('clampCrop', () => {
+  it('keeps the crop inside the image in whole pixels', () => {
+    expect(clampCrop({ x: -5, y: 10.4, width: 200, height: 50.6 }, 100, 80)).toEqual({ x: 0, y: 10, width: 100, height: 51 });
+    expect(clampCrop({ x: 150, y: 0, width: 10, height: 10 }, 100, 80)).toEqual({ x: 99, y: 0, width: 1, height: 10 });
+  });
+});
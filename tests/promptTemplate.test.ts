@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PIPELINE } from '../constants';
+import { describeColor, renderPipeline, renderTemplate } from '../services/promptTemplate';
+
+const GREEN_SCREEN = 'The background must be a solid, bright green screen (hex #00FF00).';
+const CAMERA_ONLY = 'Do not change the pose from the original subject, just the camera angle.';
+const T_POSE = 'into a standard T-pose (arms outstretched horizontally, palms down, legs together)';
+const NO_PROPS = 'Remove any weapons or accessories the subject might be holding.';
+
+/** The prompts the app sent before they became templates; cache keys depend on them. */
+const ORIGINAL_PROMPTS: Record<string, string> = {
+  'green-screen':
+    'Remove the background from this image and replace it with a solid, bright green screen (hex #00FF00). Ensure the subject is clearly visible.',
+  'front-view': `Generate a clear front view of the person or caricature in this image. ${GREEN_SCREEN} ${CAMERA_ONLY}`,
+  'side-view': `Generate a clear side view of the person or caricature in this image. ${GREEN_SCREEN} ${CAMERA_ONLY}`,
+  'back-view': `Generate a clear back view of the person or caricature in this image. ${GREEN_SCREEN} ${CAMERA_ONLY}`,
+  'tpose-front': `Transform the person or caricature in this image ${T_POSE}, facing directly front. ${GREEN_SCREEN} ${NO_PROPS}`,
+  'tpose-side': `Transform the person or caricature in this image ${T_POSE}, facing directly side. ${GREEN_SCREEN} ${NO_PROPS}`,
+  'tpose-back': `Transform the person or caricature in this image ${T_POSE}, facing directly back. ${GREEN_SCREEN} ${NO_PROPS}`,
+};
+
+describe('renderTemplate', () => {
+  it('renders the built-in pipeline with default values exactly as the original prompts', () => {
+    const prompts = Object.fromEntries(renderPipeline(DEFAULT_PIPELINE, {}).steps.map((step) => [step.id, step.prompt]));
+    expect(prompts).toEqual(ORIGINAL_PROMPTS);
+  });
+
+  it('only replaces placeholders', () => {
+    expect(renderTemplate('  Keep  this spacing . ', {})).toBe('  Keep  this spacing . ');
+    expect(renderTemplate('A {{subject}} on {{ background }}. {{style}}', { subject: 'robot', background: '#0000FF', style: 'Cel-shaded.' })).toBe(
+      'A robot on #0000FF. Cel-shaded.',
+    );
+    expect(renderTemplate('Keep {{unknown}}. {{style}}', { style: '' })).toBe('Keep {{unknown}}.');
+  });
+
+  it('describes a colour in words so the prompts follow the background colour', () => {
+    const [greenScreen] = renderPipeline(DEFAULT_PIPELINE, { background: '#0000FF' }).steps;
+    expect(greenScreen.prompt).toContain('a solid, bright blue screen (hex #0000FF)');
+    expect(greenScreen.validation?.background?.color).toBe('#0000FF');
+    expect(['#FF00FF', '#000080', '#FFC0CB', '#FFFFFF', '#808080'].map(describeColor)).toEqual([
+      'bright magenta',
+      'dark blue',
+      'light red',
+      'white',
+      'grey',
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { ImageProvenance, embedProvenance, readPngText, readProvenance } from '../services/provenance';
+import { concatBytes } from '../utils/fileUtils';
+import { PNG_SIGNATURE, createPngChunk } from '../utils/png';
+
+const PROVENANCE: ImageProvenance = {
+  version: 1,
+  stepId: 'front-view',
+  stepName: 'Front View',
+  prompt: 'Generate a clear front view of the "robot" in this image.\nKeep <all> details & colours.',
+  providerId: 'gemini',
+  model: 'gemini-2.5-flash-image',
+  sourceSha256: 'a'.repeat(64),
+  parentStepId: 'green-screen',
+  parentImageId: 'image-1',
+  createdAt: '2026-01-02T03:04:05.000Z',
+};
+
+/** A 1x1 PNG with only the IHDR and IEND chunks; the image data is never decoded. */
+const PNG = concatBytes([
+  PNG_SIGNATURE,
+  createPngChunk('IHDR', Uint8Array.from([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0])),
+  createPngChunk('IEND', new Uint8Array()),
+]);
+
+/** A JPEG header with a JFIF APP0 segment, followed by the end of image marker. */
+const JPEG = Uint8Array.from([
+  0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0xff, 0xd9,
+]);
+
+describe('provenance', () => {
+  it('round-trips through Latin-1 tEXt chunks in a PNG', () => {
+    const bytes = embedProvenance(PNG, PROVENANCE);
+    expect(readProvenance(bytes)).toEqual(PROVENANCE);
+    expect(readPngText(bytes).Description).toBe(PROVENANCE.prompt);
+  });
+
+  it('round-trips through UTF-8 iTXt chunks in a PNG', () => {
+    const provenance = { ...PROVENANCE, stepName: 'Vue de face', prompt: 'Dessine le dragon 龍 de face — fond vert.' };
+    const bytes = embedProvenance(PNG, provenance);
+    expect(readProvenance(bytes)).toEqual(provenance);
+    expect(readPngText(bytes).Description).toBe(provenance.prompt);
+  });
+
+  it('round-trips through XMP in a JPEG, after the JFIF segment', () => {
+    const bytes = embedProvenance(JPEG, PROVENANCE);
+    expect(Array.from(bytes.subarray(0, 20))).toEqual(Array.from(JPEG.subarray(0, 20)));
+    expect(bytes[20]).toBe(0xff);
+    expect(bytes[21]).toBe(0xe1);
+    expect(readProvenance(bytes)).toEqual(PROVENANCE);
+  });
+
+  it('shortens the readable description of a JPEG whose prompt does not fit twice in one segment', () => {
+    const provenance = { ...PROVENANCE, prompt: 'A very long prompt & more. '.repeat(1500) };
+    const bytes = embedProvenance(JPEG, provenance);
+    expect(readProvenance(bytes)).toEqual(provenance);
+    expect(new TextDecoder().decode(bytes)).toContain('…</rdf:li>');
+  });
+
+  it('exports a JPEG without provenance when the prompt alone does not fit in one segment', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provenance = { ...PROVENANCE, prompt: 'x'.repeat(70000) };
+    expect(embedProvenance(JPEG, provenance)).toEqual(JPEG);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,12 @@
+import 'fake-indexeddb/auto';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+// Any key selects the Gemini provider; requests are answered by a replay transport, never the network.
+process.env.API_KEY = 'test-key';
+
+afterEach(() => {
+  cleanup();
+  // Tests that run in the node environment have no localStorage.
+  globalThis.localStorage?.clear();
+});
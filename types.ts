@@ -1,9 +1,31 @@
-
 export interface GeneratedImage {
   id: string;
+  stepId: string;
   name: string;
   src: string;
   description: string;
+  /** The prompt that produced this image. */
+  prompt: string;
+  /** Id of the step whose output was the input, or SOURCE_INPUT_ID for the original upload. */
+  input: string;
+  /** Id of the input step's image version this was generated from; unset for the original upload. */
+  inputImageId?: string;
+  /** Id and label of each reference image sent with the request; unset for images made before this was recorded. */
+  references?: Pick<ReferenceImage, 'id' | 'label'>[];
+  /** Id of the version this one was refined from with a follow-up instruction or a masked edit. */
+  refinedFromId?: string;
+  /** PNG data URL of the mask a masked edit was limited to; white marks the changed region. */
+  maskSrc?: string;
+  /** Outcome of the step's quality checks, if it has any. */
+  validation?: ValidationReport;
+  /** True if the output was served from the result cache instead of a new request. */
+  cached?: boolean;
+  /** Provider usage of every request that went into this image, including retries. */
+  usage?: UsageTotals;
+  providerId: string;
+  model: string;
+  /** ISO timestamp of when the image was generated. */
+  createdAt: string;
 }
 
 export type ImagePart = {
@@ -12,3 +34,278 @@ export type ImagePart = {
     data: string;
   };
 };
+
+/**
+ * A base64 encoded image together with its MIME type, as passed between pipeline steps.
+ */
+export interface StepImage {
+  base64: string;
+  mimeType: string;
+}
+
+/**
+ * An extra photo of the subject or a style example uploaded alongside a source image.
+ * Steps pick references by label.
+ */
+export interface ReferenceImage {
+  id: string;
+  /** Role of the image, e.g. "back photo" or "style reference". */
+  label: string;
+  /** Original file name. */
+  name: string;
+  dataUrl: string;
+}
+
+/**
+ * A reference image as sent to a provider.
+ */
+export interface LabelledImage {
+  label: string;
+  image: StepImage;
+}
+
+/**
+ * A single transformation in a pipeline.
+ * `input` is either the id of another step whose output feeds this one,
+ * or SOURCE_INPUT_ID to use the original upload.
+ */
+export interface PipelineStep {
+  id: string;
+  name: string;
+  description: string;
+  prompt: string;
+  input: string;
+  /** Labels of the reference images sent with the input, in this order. Missing references are skipped. */
+  references?: string[];
+  /** Quality checks run on the step's output; none when unset. */
+  validation?: StepValidation;
+}
+
+/**
+ * Pixel-level checks for a step's output. A check runs only when its settings are present.
+ * Fractions are relative to the image size.
+ */
+export interface StepValidation {
+  /** Extra attempts made when an output fails a check. If every attempt fails, the best one is kept. */
+  maxRetries: number;
+  /** The border of the image must be filled with one flat colour. */
+  background?: {
+    /** Expected colour as a `#rrggbb` hex string, or a `{{name}}` placeholder for a colour variable. */
+    color: string;
+    /** Fraction (0-1) of the border that must be background-coloured. */
+    minCoverage: number;
+    /** Largest allowed average distance (0-1) of the background pixels from the exact colour. */
+    maxDeviation: number;
+  };
+  /** The subject must not touch or be cropped by the image edges. */
+  margins?: {
+    /** Smallest allowed gap (0-1) between the subject and each edge. */
+    minMargin: number;
+  };
+  /** The output must keep the aspect ratio of the source. */
+  aspectRatio?: {
+    /** Largest allowed relative difference (0-1). */
+    tolerance: number;
+  };
+  /** The output must have the same pixel dimensions as the source. */
+  resolution?: {
+    /** Largest allowed relative difference (0-1) in width and height. */
+    tolerance: number;
+  };
+}
+
+export type ValidationCheckId = 'background' | 'margins' | 'aspectRatio' | 'resolution';
+
+export interface ValidationCheckResult {
+  check: ValidationCheckId;
+  passed: boolean;
+  /** What was measured, e.g. "Background covers 72% of the border (needs 90%)". */
+  message: string;
+}
+
+export interface ValidationReport {
+  passed: boolean;
+  checks: ValidationCheckResult[];
+  /** How many outputs were generated before this one was kept. */
+  attempts: number;
+}
+
+/**
+ * How a template variable's value is entered and checked: free text, a #rrggbb colour, or one of a list of options.
+ */
+export type TemplateVariableType = 'text' | 'color' | 'choice';
+
+/**
+ * A value step prompts can use as `{{name}}`, filled in before a run.
+ */
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  type: TemplateVariableType;
+  default: string;
+  /** Allowed values of a `choice` variable. */
+  options?: string[];
+  description?: string;
+}
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  description?: string;
+  /** Variables the step prompts (and background check colours) may reference as `{{name}}`. */
+  variables?: TemplateVariable[];
+  steps: PipelineStep[];
+}
+
+export type StepStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ImageEditRequest {
+  base64Image: string;
+  mimeType: string;
+  prompt: string;
+  /** Greyscale mask of the same size as the image; white marks the region to change. */
+  mask?: StepImage;
+  /** Additional labelled images, sent after the image (and mask) in this order. */
+  references?: LabelledImage[];
+  model: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  model: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Token counts a provider reported for one request.
+ */
+export interface TokenUsage {
+  /** Tokens of the request, images included. */
+  promptTokens: number;
+  /** Tokens of the response, including any thinking tokens. */
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Usage accumulated over several requests, e.g. for a step, a run or a day.
+ */
+export interface UsageTotals extends TokenUsage {
+  /** Requests sent to the provider, including failed and retried ones; cache hits are not counted. */
+  calls: number;
+}
+
+/**
+ * The image a provider returned, with the usage it reported for the request.
+ */
+export interface ProviderImage {
+  base64: string;
+  /** Missing if the provider does not report usage. */
+  usage?: TokenUsage;
+}
+
+/**
+ * A backend that can edit and generate images.
+ */
+export interface ImageProvider {
+  id: string;
+  name: string;
+  models: string[];
+  editImage: (request: ImageEditRequest) => Promise<ProviderImage>;
+  generateImageFromText: (request: ImageGenerationRequest) => Promise<ProviderImage>;
+}
+
+export interface ProviderSettings {
+  providerId: string;
+  model: string;
+}
+
+/**
+ * A saved run: the uploaded image, the pipeline and provider it ran with, and its outputs.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  source: {
+    name: string;
+    dataUrl: string;
+  };
+  pipeline: Pipeline;
+  providerSettings: ProviderSettings;
+  /** Reference images uploaded for this source. Missing in projects saved before references existed. */
+  references?: ReferenceImage[];
+  /** The preferred version of each step's output. */
+  images: GeneratedImage[];
+  /** Every version generated per step id, oldest first. Missing in projects saved before versions existed. */
+  versions?: Record<string, GeneratedImage[]>;
+  /** Provider usage of every run of this project, keyed by model. Missing in projects saved before usage was tracked. */
+  usage?: Record<string, UsageTotals>;
+}
+
+/**
+ * The lightweight part of a project shown in the history list.
+ */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  sourceName: string;
+  imageCount: number;
+  stepCount: number;
+}
+
+/**
+ * A rectangle of an image in pixels, measured on the upright image.
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The file a source was prepared from, kept so a new crop starts from its full resolution.
+ */
+export interface SourceUpload {
+  original: File;
+  /** The crop applied to the original, or null for the whole image. */
+  crop: CropRect | null;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * One source image in the batch queue together with the state of its pipeline run.
+ * The item id doubles as the id of the project it is saved under.
+ */
+export interface BatchItem {
+  id: string;
+  /** The prepared source image the pipeline runs on. */
+  file: File;
+  sourceDataUrl: string;
+  /** Where the source came from; missing for projects reopened from history, which only keep the prepared image. */
+  upload?: SourceUpload;
+  references: ReferenceImage[];
+  projectName: string;
+  createdAt: string;
+  status: BatchItemStatus;
+  /** Snapshot of the steps this item runs; empty until the item is first started. */
+  runSteps: PipelineStep[];
+  /** Id, name and variables of the pipeline the run started with; null until the item is first started. */
+  runPipelineInfo: Omit<Pipeline, 'steps'> | null;
+  providerSettings: ProviderSettings | null;
+  /** The preferred version of each step's output; downstream steps chain off these. */
+  images: GeneratedImage[];
+  /** Every version generated per step id, oldest first. */
+  versions: Record<string, GeneratedImage[]>;
+  stepStatuses: Record<string, StepStatus>;
+  /** Failure or retry details per step. */
+  stepMessages: Record<string, string>;
+  /** Provider usage of every run of this item so far, keyed by model. */
+  usage: Record<string, UsageTotals>;
+}
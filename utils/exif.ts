@@ -0,0 +1,46 @@
+/** Orientation of an upright image, which needs no rotation or flip. */
+export const UPRIGHT_ORIENTATION = 1;
+
+/**
+ * Reads the EXIF orientation (1-8) of a JPEG from the IFD0 of its Exif APP1 segment.
+ * @param bytes The file, or at least its metadata segments.
+ * @returns The orientation, or null if the file is not a JPEG or does not record one.
+ */
+export const readJpegOrientation = (bytes: Uint8Array): number | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) {
+      break; // Start of scan or end of image: no more metadata segments.
+    }
+    const length = view.getUint16(offset + 2);
+    const start = offset + 4;
+    // "Exif\0\0", then a TIFF header.
+    if (marker === 0xe1 && start + 14 <= bytes.length && view.getUint32(start) === 0x45786966 && view.getUint16(start + 4) === 0) {
+      const tiff = start + 6;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > bytes.length) {
+        return null;
+      }
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let index = 0; index < entries; index++) {
+        const entry = ifd + 2 + index * 12;
+        if (entry + 12 > bytes.length) {
+          return null;
+        }
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : null;
+        }
+      }
+      return null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
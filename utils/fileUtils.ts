@@ -0,0 +1,129 @@
+import { StepImage } from '../types';
+
+/**
+ * Reads a file into a data URL.
+ * @param file The file to read.
+ * @returns A promise that resolves to the `data:<mime>;base64,<data>` URL of the file.
+ */
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read the image file.'));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Splits a base64 data URL into its MIME type and payload.
+ * @param dataUrl A `data:<mime>;base64,<data>` URL.
+ * @returns The base64 payload and MIME type.
+ */
+export const parseDataUrl = (dataUrl: string): StepImage => {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error('Expected a base64 encoded data URL.');
+  }
+  return { mimeType: match[1], base64: match[2] };
+};
+
+/**
+ * Triggers a browser download of a data or object URL.
+ * @param url The URL to download.
+ * @param filename The suggested file name.
+ */
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Turns a display name into a lowercase, underscore separated file name stem.
+ */
+export const toFileSlug = (name: string): string => name.replace(/\s+/g, '_').toLowerCase();
+
+/**
+ * Decodes a base64 string into bytes.
+ */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Joins byte arrays into one.
+ */
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * Identifies common image formats from their leading magic bytes.
+ * @param bytes The start of the file; the first 12 bytes are enough.
+ * @returns The detected MIME type, or null if the format is not recognised.
+ */
+export const sniffImageMimeType = (bytes: Uint8Array): string | null => {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) {
+    return 'image/gif';
+  }
+  return null;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/**
+ * File extension (without the dot) for an image MIME type, falling back to "bin" for unknown types.
+ */
+export const extensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType] ?? 'bin';
+
+/**
+ * Identifies the format of base64 encoded image data from its first bytes.
+ * @returns The detected MIME type, or null if the format is not recognised.
+ */
+export const sniffBase64MimeType = (base64: string): string | null => sniffImageMimeType(base64ToBytes(base64.slice(0, 16)));
+
+/**
+ * The real format of an image data URL, read from its bytes and falling back to the declared type.
+ */
+export const detectDataUrlMimeType = (dataUrl: string): string => {
+  const { base64, mimeType } = parseDataUrl(dataUrl);
+  return sniffBase64MimeType(base64) ?? mimeType;
+};
+
+/**
+ * Rebuilds a File from a base64 data URL, e.g. when reopening a saved project.
+ */
+export const dataUrlToFile = (dataUrl: string, name: string): File => {
+  const { base64, mimeType } = parseDataUrl(dataUrl);
+  return new File([base64ToBytes(base64)], name, { type: mimeType });
+};
@@ -0,0 +1,220 @@
+/**
+ * One frame of an animation: RGBA pixels of the full canvas and how long it is shown.
+ */
+export interface AnimationFrame {
+  pixels: Uint8ClampedArray;
+  delayMs: number;
+}
+
+/** Pixels with less alpha than this are written as the transparent colour. */
+const ALPHA_THRESHOLD = 128;
+/** Colours are bucketed to 5 bits per channel before quantising. */
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SIZE = 1 << (HISTOGRAM_BITS * 3);
+const MAX_LZW_CODE = 4096;
+
+interface ColorBox {
+  /** Histogram bucket ids in this box. */
+  buckets: number[];
+  count: number;
+}
+
+const bucketOf = (r: number, g: number, b: number) =>
+  ((r >> 3) << (HISTOGRAM_BITS * 2)) | ((g >> 3) << HISTOGRAM_BITS) | (b >> 3);
+
+const channelOf = (bucket: number, channel: number) => (bucket >> (HISTOGRAM_BITS * (2 - channel))) & 0x1f;
+
+/**
+ * Splits the colour histogram into at most `maxColors` boxes by median cut and returns each
+ * box's weighted mean colour.
+ */
+const medianCut = (histogram: Uint32Array, maxColors: number): [number, number, number][] => {
+  const used: number[] = [];
+  let total = 0;
+  for (let bucket = 0; bucket < HISTOGRAM_SIZE; bucket++) {
+    if (histogram[bucket] > 0) {
+      used.push(bucket);
+      total += histogram[bucket];
+    }
+  }
+  if (used.length === 0) {
+    return [[0, 0, 0]];
+  }
+  const boxes: ColorBox[] = [{ buckets: used, count: total }];
+  while (boxes.length < maxColors) {
+    // Split the most populated box that still has more than one colour.
+    const splittable = boxes.filter((box) => box.buckets.length > 1);
+    if (splittable.length === 0) {
+      break;
+    }
+    const box = splittable.reduce((best, candidate) => (candidate.count > best.count ? candidate : best));
+    const ranges = [0, 1, 2].map((channel) => {
+      const values = box.buckets.map((bucket) => channelOf(bucket, channel));
+      return Math.max(...values) - Math.min(...values);
+    });
+    const channel = ranges.indexOf(Math.max(...ranges));
+    box.buckets.sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+    let running = 0;
+    let split = 1;
+    for (; split < box.buckets.length - 1; split++) {
+      running += histogram[box.buckets[split - 1]];
+      if (running >= box.count / 2) {
+        break;
+      }
+    }
+    const low = box.buckets.slice(0, split);
+    const high = box.buckets.slice(split);
+    const countOf = (buckets: number[]) => buckets.reduce((sum, bucket) => sum + histogram[bucket], 0);
+    boxes.splice(boxes.indexOf(box), 1, { buckets: low, count: countOf(low) }, { buckets: high, count: countOf(high) });
+  }
+  return boxes.map((box) => {
+    const sums = [0, 0, 0];
+    for (const bucket of box.buckets) {
+      for (let channel = 0; channel < 3; channel++) {
+        sums[channel] += ((channelOf(bucket, channel) << 3) | 4) * histogram[bucket];
+      }
+    }
+    return sums.map((sum) => Math.round(sum / box.count)) as [number, number, number];
+  });
+};
+
+/**
+ * Compresses palette indices with GIF's variable-width LZW.
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_LZW_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) {
+    output.push(buffer & 0xff);
+  }
+  return Uint8Array.from(output);
+};
+
+/**
+ * Encodes frames as a looping animated GIF with one shared 256 colour palette. Pixels that are
+ * mostly transparent become GIF transparency, so keyed frames keep a see-through background.
+ * @param frames Full-canvas frames, all `width` × `height`.
+ * @returns The GIF file.
+ */
+export const encodeGif = (frames: AnimationFrame[], width: number, height: number): Blob => {
+  const histogram = new Uint32Array(HISTOGRAM_SIZE);
+  let hasTransparency = false;
+  for (const { pixels } of frames) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      if (pixels[i + 3] < ALPHA_THRESHOLD) {
+        hasTransparency = true;
+      } else {
+        histogram[bucketOf(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+      }
+    }
+  }
+  // Index 0 is reserved for transparency when any frame needs it.
+  const transparentIndex = hasTransparency ? 0 : -1;
+  const palette = medianCut(histogram, hasTransparency ? 255 : 256);
+  const colors: [number, number, number][] = hasTransparency ? [[0, 0, 0], ...palette] : palette;
+
+  // Nearest palette entry per histogram bucket, computed on first use.
+  const nearest = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+  const lookup = (r: number, g: number, b: number) => {
+    const bucket = bucketOf(r, g, b);
+    if (nearest[bucket] < 0) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let index = hasTransparency ? 1 : 0; index < colors.length; index++) {
+        const [pr, pg, pb] = colors[index];
+        const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+        if (distance < bestDistance) {
+          best = index;
+          bestDistance = distance;
+        }
+      }
+      nearest[bucket] = best;
+    }
+    return nearest[bucket];
+  };
+
+  const bytes: number[] = [];
+  const writeUint16 = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+  const writeString = (value: string) => bytes.push(...Array.from(value, (char) => char.charCodeAt(0)));
+
+  writeString('GIF89a');
+  writeUint16(width);
+  writeUint16(height);
+  bytes.push(0xf7, 0, 0); // Global colour table of 256 entries, background index 0, square pixels
+  for (let index = 0; index < 256; index++) {
+    bytes.push(...(colors[index] ?? [0, 0, 0]));
+  }
+  // NETSCAPE2.0 application extension: loop forever.
+  bytes.push(0x21, 0xff, 0x0b);
+  writeString('NETSCAPE2.0');
+  bytes.push(0x03, 0x01, 0x00, 0x00, 0x00);
+
+  const indices = new Uint8Array(width * height);
+  for (const { pixels, delayMs } of frames) {
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      indices[p] = pixels[i + 3] < ALPHA_THRESHOLD ? transparentIndex : lookup(pixels[i], pixels[i + 1], pixels[i + 2]);
+    }
+    // Graphic control extension: restore to background before the next frame so transparent areas do not smear.
+    bytes.push(0x21, 0xf9, 0x04, (2 << 2) | (hasTransparency ? 1 : 0));
+    writeUint16(Math.max(2, Math.round(delayMs / 10)));
+    bytes.push(Math.max(0, transparentIndex), 0);
+    // Image descriptor covering the whole canvas, no local colour table.
+    bytes.push(0x2c);
+    writeUint16(0);
+    writeUint16(0);
+    writeUint16(width);
+    writeUint16(height);
+    bytes.push(0);
+    bytes.push(8); // LZW minimum code size
+    const data = lzwEncode(indices, 8);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0);
+  }
+  bytes.push(0x3b);
+  return new Blob([Uint8Array.from(bytes)], { type: 'image/gif' });
+};
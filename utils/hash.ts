@@ -0,0 +1,9 @@
+/**
+ * Computes the SHA-256 digest of some bytes.
+ * @param data The bytes to hash.
+ * @returns The digest as a lowercase hex string.
+ */
+export const sha256Hex = async (data: Uint8Array | ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
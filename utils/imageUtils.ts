@@ -0,0 +1,37 @@
+/**
+ * Decodes an image from a URL.
+ * @param src A data, object or same-origin URL.
+ * @returns The loaded image element.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to decode the image.'));
+    image.src = src;
+  });
+
+/**
+ * Creates an off-screen canvas of at least 1x1 pixels together with its 2D context.
+ * @throws If the browser cannot provide a 2D context.
+ */
+export const createCanvas = (width: number, height: number, settings?: CanvasRenderingContext2DSettings) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(width));
+  canvas.height = Math.max(1, Math.ceil(height));
+  const context = canvas.getContext('2d', settings);
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  return { canvas, context };
+};
+
+/**
+ * Encodes a canvas as an image file.
+ * @param type The image MIME type, e.g. 'image/png' or 'image/jpeg'.
+ * @param quality Quality between 0 and 1 for lossy formats.
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the image.'))), type, quality);
+  });
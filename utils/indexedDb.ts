@@ -0,0 +1,78 @@
+/**
+ * Returns a function that opens an IndexedDB database once and shares the connection. The
+ * object stores are created, keyed by the given key paths, when the database is first created.
+ * A failed open is tried again on the next call.
+ * @param name Database name.
+ * @param version Schema version.
+ * @param stores Key path of each object store, keyed by store name.
+ * @param description What the database holds, for the error message if it cannot be opened.
+ */
+export const createDatabaseOpener = (
+  name: string,
+  version: number,
+  stores: Record<string, string>,
+  description: string,
+): (() => Promise<IDBDatabase>) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  return () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          Object.entries(stores).forEach(([store, keyPath]) => db.createObjectStore(store, { keyPath }));
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error ?? new Error(`Failed to open the ${description}.`));
+        };
+      });
+    }
+    return dbPromise;
+  };
+};
+
+/**
+ * Resolves with the result of an IndexedDB request, or rejects with its error.
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` inside a transaction over the given stores and resolves once the transaction
+ * commits. If `work` fails, the transaction is aborted so nothing it queued is written, and the
+ * failure of `work` is what rejects.
+ * @param work Receives the object stores in the order of `storeNames`.
+ */
+export const runTransaction = async <T>(
+  db: IDBDatabase,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (...stores: IDBObjectStore[]) => Promise<T> | T,
+): Promise<T> => {
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error);
+    transaction.onerror = () => reject(transaction.error);
+  });
+  // If `work` fails, `done` may reject with nobody awaiting it; that failure is reported through `work`'s.
+  done.catch(() => {});
+  let result: T;
+  try {
+    result = await work(...storeNames.map((store) => transaction.objectStore(store)));
+  } catch (error) {
+    try {
+      transaction.abort();
+    } catch {
+      // The transaction already finished.
+    }
+    throw error;
+  }
+  await done;
+  return result;
+};
@@ -0,0 +1,124 @@
+import { AnimationFrame } from './gif';
+import { crc32 } from './zip';
+
+export const PNG_SIGNATURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Builds a PNG chunk: length, type, data and the CRC over type and data.
+ * @param type Four-letter chunk type, e.g. "IHDR".
+ */
+export const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  /** Byte offset of the chunk's length field in the file. */
+  offset: number;
+}
+
+/**
+ * Lists the chunks of a PNG file up to and including IEND, without checking CRCs.
+ * @throws If the bytes are not a PNG or a chunk runs past the end of the file.
+ */
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)) {
+    throw new Error('Not a PNG file.');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    if (offset + 12 + length > bytes.length) {
+      throw new Error('PNG chunk runs past the end of the file.');
+    }
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length), offset });
+    offset += 12 + length;
+    if (type === 'IEND') {
+      break;
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Compresses bytes into a zlib stream, as PNG image data expects, with the browser's CompressionStream.
+ */
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Prefixes every scanline with the Sub filter, which shrinks flat backgrounds to almost nothing.
+ */
+const filterScanlines = (pixels: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const stride = width * 4;
+  const filtered = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    filtered[row] = 1;
+    for (let x = 0; x < stride; x++) {
+      const value = pixels[y * stride + x];
+      filtered[row + 1 + x] = x < 4 ? value : value - pixels[y * stride + x - 4];
+    }
+  }
+  return filtered;
+};
+
+/**
+ * Encodes frames as a looping animated PNG (APNG). Each frame replaces the whole canvas, so
+ * alpha is kept exactly; viewers without APNG support show the first frame.
+ * @param frames Full-canvas frames, all `width` × `height`.
+ * @returns The APNG file.
+ */
+export const encodeApng = async (frames: AnimationFrame[], width: number, height: number): Promise<Blob> => {
+  const header = new DataView(new ArrayBuffer(13));
+  header.setUint32(0, width);
+  header.setUint32(4, height);
+  header.setUint8(8, 8); // Bit depth
+  header.setUint8(9, 6); // Colour type: RGBA
+  const control = new DataView(new ArrayBuffer(8));
+  control.setUint32(0, frames.length);
+  control.setUint32(4, 0); // Loop forever
+
+  const parts = [
+    PNG_SIGNATURE,
+    createPngChunk('IHDR', new Uint8Array(header.buffer)),
+    createPngChunk('acTL', new Uint8Array(control.buffer)),
+  ];
+  let sequence = 0;
+  for (const [index, frame] of frames.entries()) {
+    const frameControl = new DataView(new ArrayBuffer(26));
+    frameControl.setUint32(0, sequence++);
+    frameControl.setUint32(4, width);
+    frameControl.setUint32(8, height);
+    frameControl.setUint16(20, Math.max(1, Math.round(frame.delayMs))); // Delay numerator
+    frameControl.setUint16(22, 1000); // Delay denominator: milliseconds
+    // Offsets, dispose op (none) and blend op (source) are all zero.
+    parts.push(createPngChunk('fcTL', new Uint8Array(frameControl.buffer)));
+
+    const data = await deflate(filterScanlines(frame.pixels, width, height));
+    if (index === 0) {
+      parts.push(createPngChunk('IDAT', data));
+    } else {
+      const frameData = new Uint8Array(4 + data.length);
+      new DataView(frameData.buffer).setUint32(0, sequence++);
+      frameData.set(data, 4);
+      parts.push(createPngChunk('fdAT', frameData));
+    }
+  }
+  parts.push(createPngChunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/png' });
+};